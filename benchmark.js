@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+
+import { CodeSearchEngine } from './build/CodeSearchEngine.js';
+import { setLogLevel } from './build/logger.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Index a directory from scratch and time it
+ * @param directory Directory to index
+ * @param extensions File extensions to include
+ * @param concurrency Number of worker threads
+ * @param indexPath Where to write the index
+ * @returns Elapsed milliseconds
+ */
+async function timeIndexing(directory, extensions, concurrency, indexPath) {
+  const engine = new CodeSearchEngine(indexPath, { concurrency });
+  const start = process.hrtime.bigint();
+  await engine.createIndex(directory, extensions, true);
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+/**
+ * Read the indexed files of a directory from an index file, without timestamps
+ * @param indexPath Index file
+ * @returns Serialized file entries
+ */
+function readIndexedFiles(indexPath) {
+  const index = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+  return JSON.stringify(Object.values(index.directories).map(entry => entry.files));
+}
+
+/**
+ * Get the middle value of a list of timings
+ * @param timings Elapsed milliseconds
+ * @returns Median
+ */
+function median(timings) {
+  const sorted = [...timings].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  
+  if (args.length < 1) {
+    console.log('Usage: node benchmark.js <directory> [concurrency] [extensions...]');
+    console.log('Example: node benchmark.js ./node_modules 4 .js .ts');
+    console.log('Set BENCHMARK_ROUNDS to change how many times each mode is timed (default: 3)');
+    process.exit(1);
+  }
+  
+  const directory = path.resolve(args[0]);
+  const concurrency = args[1] ? parseInt(args[1]) : os.cpus().length;
+  const extensions = args.length > 2 ? args.slice(2) : undefined;
+  const rounds = parseInt(process.env.BENCHMARK_ROUNDS || '3');
+  
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'code-ferret-bench-'));
+  const serialIndex = path.join(tempDir, 'serial.json');
+  const parallelIndex = path.join(tempDir, 'parallel.json');
+  
+  // Keep the engine's progress output out of the report
+  setLogLevel('error');
+  
+  try {
+    // A warm-up run fills the file system cache, so neither mode pays for reading from disk
+    await timeIndexing(directory, extensions, concurrency, path.join(tempDir, 'warmup.json'));
+    
+    // Alternate which mode goes first, so neither always runs right after the other
+    const serialTimes = [];
+    const parallelTimes = [];
+    for (let round = 0; round < rounds; round++) {
+      if (round % 2 === 0) {
+        serialTimes.push(await timeIndexing(directory, extensions, 1, serialIndex));
+        parallelTimes.push(await timeIndexing(directory, extensions, concurrency, parallelIndex));
+      } else {
+        parallelTimes.push(await timeIndexing(directory, extensions, concurrency, parallelIndex));
+        serialTimes.push(await timeIndexing(directory, extensions, 1, serialIndex));
+      }
+    }
+    const serialMs = median(serialTimes);
+    const parallelMs = median(parallelTimes);
+    const identical = readIndexedFiles(serialIndex) === readIndexedFiles(parallelIndex);
+    
+    console.log(`Directory:   ${directory}`);
+    console.log(`Rounds:      ${rounds} (median)`);
+    console.log(`Serial:      ${serialMs.toFixed(0)} ms`);
+    console.log(`Parallel:    ${parallelMs.toFixed(0)} ms (${concurrency} workers)`);
+    console.log(`Speedup:     ${(serialMs / parallelMs).toFixed(2)}x`);
+    console.log(`Identical:   ${identical ? 'yes' : 'NO'}`);
+    
+    if (!identical) {
+      process.exitCode = 1;
+    }
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+main().catch(console.error);
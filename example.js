@@ -46,7 +46,7 @@ async function main() {
     
     for (const result of results) {
       console.log(`\nRank: ${result.rank}`);
-      console.log(`File: ${result.file}`);
+      console.log(`File: ${result.file}:${result.startLine}-${result.endLine}`);
       console.log(`Score: ${result.similarityScore.toFixed(3)}`);
       
       // Show a snippet of the code (first 5 lines)
@@ -0,0 +1,122 @@
+/**
+ * A node of the tree: a term and its children keyed by their distance to it
+ */
+interface BKNode {
+  term: string;
+  children: Map<number, BKNode>;
+}
+
+/**
+ * Burkhard-Keller tree over a set of terms, for finding the terms within an edit distance of a word
+ * without comparing the word against the whole vocabulary. Because edit distance obeys the triangle
+ * inequality, a search only descends into children whose distance to their parent is within the
+ * allowed distance of the word's own distance to the parent.
+ */
+export class BKTree {
+  private root?: BKNode;
+
+  /**
+   * Add a term to the tree
+   * @param term Term to add
+   */
+  add(term: string): void {
+    if (!this.root) {
+      this.root = { term, children: new Map() };
+      return;
+    }
+
+    let node = this.root;
+    while (true) {
+      const distance = editDistance(term, node.term);
+      if (distance === 0) {
+        return;
+      }
+
+      const child = node.children.get(distance);
+      if (!child) {
+        node.children.set(distance, { term, children: new Map() });
+        return;
+      }
+      node = child;
+    }
+  }
+
+  /**
+   * Find the terms within an edit distance of a word
+   * @param word Word to look up
+   * @param maxDistance Largest edit distance to accept
+   * @returns Matching terms and their distance to the word, closest first
+   */
+  search(word: string, maxDistance: number): { term: string; distance: number }[] {
+    const matches: { term: string; distance: number }[] = [];
+    const pending = this.root ? [this.root] : [];
+
+    while (pending.length > 0) {
+      const node = pending.pop()!;
+      const distance = editDistance(word, node.term);
+      if (distance <= maxDistance) {
+        matches.push({ term: node.term, distance });
+      }
+
+      for (const [childDistance, child] of node.children) {
+        if (Math.abs(childDistance - distance) <= maxDistance) {
+          pending.push(child);
+        }
+      }
+    }
+
+    return matches.sort((a, b) => a.distance - b.distance || a.term.localeCompare(b.term));
+  }
+}
+
+/**
+ * Edit distance between two strings: the number of single-character insertions, deletions,
+ * substitutions and swaps of adjacent characters needed to turn one into the other.
+ * Counting a swap as one edit matches how typos like "cahce" happen. Unlike optimal string
+ * alignment, this (Damerau-Levenshtein) distance lets swapped characters be edited further, which
+ * keeps it a metric, so the tree's pruning never skips a match.
+ * @param a First string
+ * @param b Second string
+ * @returns Edit distance
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+
+  // distances[i + 1][j + 1] is the distance between the first i characters of a and the first
+  // j characters of b. The extra first row and column hold a bound no path can reach
+  const bound = a.length + b.length;
+  const distances = Array.from({ length: a.length + 2 }, () => new Array<number>(b.length + 2).fill(bound));
+  for (let i = 0; i <= a.length; i++) {
+    distances[i + 1][1] = i;
+  }
+  for (let j = 0; j <= b.length; j++) {
+    distances[1][j + 1] = j;
+  }
+
+  // Last row of a in which each character was seen
+  const lastRow = new Map<string, number>();
+  for (let i = 1; i <= a.length; i++) {
+    // Last column of b in this row where the characters matched
+    let lastMatchColumn = 0;
+    for (let j = 1; j <= b.length; j++) {
+      const swapRow = lastRow.get(b[j - 1]) ?? 0;
+      const swapColumn = lastMatchColumn;
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      if (cost === 0) {
+        lastMatchColumn = j;
+      }
+
+      distances[i + 1][j + 1] = Math.min(
+        distances[i][j] + cost,
+        distances[i + 1][j] + 1,
+        distances[i][j + 1] + 1,
+        // Swap the characters, with everything between them deleted or inserted
+        distances[swapRow][swapColumn] + (i - swapRow - 1) + 1 + (j - swapColumn - 1)
+      );
+    }
+    lastRow.set(a[i - 1], i);
+  }
+  return distances[a.length + 1][b.length + 1];
+}
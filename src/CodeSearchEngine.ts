@@ -1,103 +1,538 @@
 import fs from 'fs';
 import path from 'path';
-import crypto from 'crypto';
-import { getSourceFiles } from './utils.js';
+import os from 'os';
+import { fileURLToPath } from 'url';
+import { getSourceFiles, createSourceFileFilter, DEFAULT_EXTENSIONS, SourceFileFilter } from './utils.js';
+import { IGNORE_FILES } from './IgnoreRules.js';
+import { InvertedIndex } from './InvertedIndex.js';
+import { tokenize, tokenizePhrase } from './tokenizer.js';
+import { BM25Parameters, DEFAULT_BM25_PARAMETERS, explainFields, scoreTerms } from './bm25.js';
+import { findPhrase, proximityBoost } from './proximity.js';
+import { FilterField, formatQuery, getSearchedText, parseQuery, QueryNode, wildcardToRegExp } from './query.js';
+import { findLanguage, getCommonStopwords } from './languages.js';
+import { SynonymDictionary, SYNONYMS_FILE } from './SynonymDictionary.js';
+import { DEFAULT_FIELD_WEIGHTS, Field, FIELDS, FieldWeights } from './fields.js';
+import { analyzeFile, AnalyzeOptions, CodeChunk, FileAnalysis, FileEncoding, isIndexedWord, SkippedFile, SkipReason } from './analyzer.js';
+import { ChunkKind } from './chunker.js';
+import { GitAttributes } from './GitAttributes.js';
+import { DirectoryWatcher } from './DirectoryWatcher.js';
+import { WorkerPool } from './WorkerPool.js';
+import { IndexTask } from './indexWorker.js';
+import { ContentStore } from './ContentStore.js';
+import { getIndexFileStamp, readIndexFile, writeIndexFile, PersistedDirectory, PersistedFile, SerializedDirectory } from './indexStore.js';
+import { decodeTrigrams, encodeTrigrams, getRequiredTrigrams, mayContainMatch } from './trigrams.js';
+import { createSnippets, DEFAULT_SNIPPET_OPTIONS, HighlightTerms, Snippet, SnippetOptions } from './snippets.js';
+import { decodeCursor, encodeCursor } from './cursor.js';
+import { logError, logInfo } from './logger.js';
 
 // Define interfaces for our data structures
+// File content is not part of the metadata; it lives in the engine's ContentStore
 interface CodeMetadata {
   file: string;
-  code: string;
-  keywords: Map<string, number> | [string, number][]; // Map of keywords to their frequency or serialized version
+  chunks: CodeChunk[]; // Functions, classes and blocks of the file, each indexed as its own document
   checksum: string; // File checksum to detect changes
+  size: number; // Size in bytes when indexed
+  mtimeMs: number; // Modification time when indexed, to tell whether lineOffsets still apply
+  lineOffsets: number[]; // Byte offset of the start of each line
+  encoding: FileEncoding;
+  trigrams: Uint32Array; // Character trigrams of the content, for narrowing down exact searches
 }
 
-interface SearchResult {
+// Outcome of turning the analysis of a file into its index entry
+type IndexEntryResult =
+  | { item: CodeMetadata; status: 'added' | 'updated' | 'unchanged' }
+  | { item?: undefined; status: 'skipped'; reason: SkipReason };
+
+// Lookups over the index of a directory that every query needs. They are built when the index is
+// loaded or updated, so the cost of a query doesn't grow with the number of files
+interface DirectoryLookups {
+  files: Map<string, CodeMetadata>; // Index entry of each file, by path
+  chunks: Map<string, { relativePath: string; chunk: CodeChunk }>; // Every chunk of the directory, by chunk id
+  synonyms: SynonymDictionary; // Default and configured synonyms, plus the directory's .ferretsynonyms
+}
+
+// State shared while a parsed query is evaluated against the index of a directory
+interface QueryContext {
+  invertedIndex: InvertedIndex;
+  synonyms: SynonymDictionary;
+  chunks: Map<string, { relativePath: string; chunk: CodeChunk }>; // Every chunk of the directory, by chunk id
+  corrections: Map<string, QueryCorrection[]>;
+  phraseLines: Map<string, number[]>; // Lines within each chunk on which a phrase starts
+  keywordTerms: string[][]; // Indexed terms matched by each searched keyword, in query order
+  contributions?: Map<string, Omit<TermContribution, 'fields'>[]>; // Only recorded when scores are explained
+  highlights: HighlightTerms; // What the searched words and phrases matched, to highlight in results
+}
+
+// Below this many files, starting worker threads costs more than it saves
+const PARALLEL_THRESHOLD = 50;
+
+// Default content cache size when file content is read from disk on demand
+const DEFAULT_DISK_MEMORY_BUDGET = 64 * 1024 * 1024;
+
+// Results returned by a search when no limit is given
+export const DEFAULT_SEARCH_LIMIT = 10;
+
+// Share of its BM25 score that an indexed term gets when it only contains a query term
+const PARTIAL_MATCH_WEIGHT = 0.5;
+
+// Share of its BM25 score that an indexed term gets when it is a likely correction of a misspelled query term
+const FUZZY_MATCH_WEIGHT = 0.4;
+
+// Query terms shorter than this are never corrected, since almost any short word is a typo of another
+const FUZZY_MIN_LENGTH = 4;
+
+/**
+ * Where the content of indexed files is kept
+ * - memory: the content of every indexed file is kept in memory
+ * - disk: only the derived index data is kept, and content is read back from disk when a result is rendered
+ */
+export const STORAGE_MODES = ['memory', 'disk'] as const;
+
+export type StorageMode = typeof STORAGE_MODES[number];
+
+/**
+ * Options for the search engine
+ */
+export interface EngineOptions {
+  concurrency?: number; // Number of worker threads used for indexing (default: number of CPUs)
+  storage?: StorageMode; // Where file content is kept (default: 'memory')
+  // Maximum bytes of file content held in memory. Least recently used content is evicted first
+  // (default: unlimited for 'memory' storage, 64 MB for 'disk' storage)
+  memoryBudget?: number;
+  maxFileSize?: number; // Files larger than this many bytes are not indexed (default: 1 MB)
+  skipGenerated?: boolean; // Skip generated and minified files (default: true)
+  k1?: number; // BM25 term frequency saturation (default: 1.2)
+  b?: number; // BM25 document length normalization, from 0 (none) to 1 (full) (default: 0.75)
+  // Weight of a match in each field: path, symbols, comments, strings and body
+  // (default: path 3, symbols 3, comments 1.5, strings 0.5, body 1)
+  fieldWeights?: Partial<FieldWeights>;
+  stemming?: boolean; // Match words with the same English stem, e.g. "validating" and "validate" (default: true)
+  synonyms?: string[][]; // Synonym groups added to the defaults and the directory's .ferretsynonyms file
+}
+
+/**
+ * Summary of what an indexing run changed
+ */
+export interface IndexStats {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  skipped: { file: string; reason: SkipReason }[]; // Files left out of the index
+}
+
+/**
+ * Options for watching an indexed directory
+ */
+export interface WatchOptions {
+  debounceMs?: number; // Quiet period after the last event before the index is updated
+  onUpdate?: (stats: IndexStats) => void; // Called after each batch of changes is applied
+}
+
+/**
+ * Handle returned by CodeSearchEngine.watch
+ */
+export interface IndexWatcher {
+  close(): Promise<void>;
+}
+
+/**
+ * A misspelled query term and the indexed term it was matched as
+ */
+export interface QueryCorrection {
+  term: string;
+  correction: string;
+}
+
+/**
+ * A chunk of code matching a query
+ */
+export interface SearchResult {
   file: string;
-  code: string;
+  startLine: number; // 1-based, inclusive
+  endLine: number; // 1-based, inclusive
+  kind: ChunkKind;
+  symbol?: string; // Name of the declaration, qualified with its class for methods
+  exported?: boolean; // Whether the module exports the declaration, for TypeScript and JavaScript
+  code: string; // Content of the chunk
+  snippets: Snippet[]; // Best-matching line ranges of the chunk, with context and highlighted matches
   similarityScore: number;
   rank: number;
+  corrections?: QueryCorrection[]; // Query terms that only matched this chunk after correcting their spelling
+  matchLines?: number[]; // Lines on which the query's quoted phrases start
+  explanation?: ScoreExplanation; // How the score was worked out, if requested
+  stale?: boolean; // The file changed since it was indexed, so the code shown may not be what matched
+}
+
+/**
+ * Options for ranked search
+ */
+export interface SearchOptions {
+  limit?: number; // Most results to return (default: 10)
+  offset?: number; // Number of top-ranked results to skip (default: 0)
+  cursor?: string; // nextCursor of the previous page of the same search, in place of offset
+  explain?: boolean; // Break each result's score down by query term, field and boost (default: false)
+  beforeContext?: number; // Lines shown before each matching line of a snippet (default: 2)
+  afterContext?: number; // Lines shown after each matching line of a snippet (default: 2)
+  maxSnippets?: number; // Most snippets per result (default: 3)
+}
+
+/**
+ * A page of ranked search results
+ */
+export interface SearchPage {
+  results: SearchResult[];
+  total: number; // Number of chunks matching the query across all pages
+  nextCursor?: string; // Cursor for the following page, if there are more results
+}
+
+/**
+ * A page of the files with ranked search results
+ */
+export interface FilePage {
+  files: string[]; // File paths, ordered by their best matching chunk
+  start: number; // Number of files before the page
+  total: number; // Number of files with a matching chunk across all pages
+  nextCursor?: string; // Cursor for the following page, if there are more files
+}
+
+/**
+ * How a query term matched a chunk
+ * - exact: the term itself, a synonym, or a word with the same stem
+ * - partial: an indexed word containing the term
+ * - fuzzy: the closest indexed words to a term that matched nothing, as a spelling correction
+ * - wildcard: indexed words matching a * pattern
+ * - phrase: a word of a quoted phrase that occurs word for word
+ */
+export type MatchType = 'exact' | 'partial' | 'fuzzy' | 'wildcard' | 'phrase';
+
+/**
+ * What a query term added to a chunk's score
+ */
+export interface TermContribution {
+  query: string; // Query term, wildcard pattern or phrase
+  match: MatchType;
+  terms: string[]; // Indexed words that matched in the chunk
+  fields: Partial<Record<Field, number>>; // Share of the score from each field the words occur in
+  score: number;
+}
+
+/**
+ * Breakdown of a chunk's score. The contributions of the query terms add up, and the boosts
+ * multiply the sum
+ */
+export interface ScoreExplanation {
+  terms: TermContribution[];
+  boosts: { name: string; factor: number }[];
+}
+
+/**
+ * Options for exact regex and literal search
+ */
+export interface GrepOptions {
+  literal?: boolean; // Match the pattern as plain text rather than as a regular expression (default: false)
+  caseSensitive?: boolean; // Distinguish upper and lower case (default: false)
+  wholeWord?: boolean; // Only match where the match isn't part of a longer word (default: false)
+}
+
+/**
+ * A single match of an exact search
+ */
+export interface GrepMatch {
+  file: string;
+  line: number; // 1-based
+  column: number; // 1-based, in characters
+  match: string; // Text that matched
+  lineText: string; // The whole line containing the match
+}
+
+/**
+ * Get the inverted index document id of a chunk
+ * @param file File path
+ * @param index Position of the chunk in the file's chunks
+ * @returns Document id
+ */
+function getChunkId(file: string, index: number): string {
+  return `${file}#${index}`;
+}
+
+/**
+ * Split an inverted index document id back into the file and chunk position
+ * @param id Document id created by getChunkId
+ * @returns File path and chunk position
+ */
+function parseChunkId(id: string): { file: string; index: number } {
+  const separator = id.lastIndexOf('#');
+  return { file: id.slice(0, separator), index: parseInt(id.slice(separator + 1)) };
+}
+
+/**
+ * Get the snippet options of a search, filling in the defaults
+ * @param options Search options
+ * @returns Snippet options
+ * @throws RangeError if the context or number of snippets isn't a whole number of at least 0
+ */
+function getSnippetOptions(options: SearchOptions): SnippetOptions {
+  const snippetOptions: SnippetOptions = {
+    beforeContext: options.beforeContext ?? DEFAULT_SNIPPET_OPTIONS.beforeContext,
+    afterContext: options.afterContext ?? DEFAULT_SNIPPET_OPTIONS.afterContext,
+    maxSnippets: options.maxSnippets ?? DEFAULT_SNIPPET_OPTIONS.maxSnippets
+  };
+  for (const [name, value] of Object.entries(snippetOptions)) {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new RangeError(`Invalid ${name} ${value}. Expected a whole number of at least 0`);
+    }
+  }
+  return snippetOptions;
+}
+
+/**
+ * Check whether a file on disk is still the one that was indexed
+ * @param item Index entry of the file
+ * @returns "current" if its size and modification time are unchanged, "stale" if they changed,
+ * or "missing" if the file is gone
+ */
+function getFileState(item: CodeMetadata): 'current' | 'stale' | 'missing' {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(item.file);
+  } catch {
+    return 'missing';
+  }
+  return stat.isFile() && stat.size === item.size && stat.mtimeMs === item.mtimeMs ? 'current' : 'stale';
+}
+
+/**
+ * Turn a file's entry in the on-disk index back into its metadata
+ * @param normalizedDir Normalized path of the indexed directory
+ * @param persisted The file's on-disk entry
+ * @returns The file's metadata
+ */
+function fromPersistedFile(normalizedDir: string, persisted: PersistedFile): CodeMetadata {
+  return {
+    file: path.join(normalizedDir, persisted.file),
+    chunks: persisted.chunks.map(chunk => ({
+      ...chunk,
+      keywords: new Map(chunk.keywords),
+      positions: new Map(chunk.positions)
+    })),
+    checksum: persisted.checksum,
+    size: persisted.size,
+    mtimeMs: persisted.mtimeMs,
+    lineOffsets: persisted.lineOffsets,
+    encoding: persisted.encoding,
+    trigrams: decodeTrigrams(persisted.trigrams)
+  };
+}
+
+/**
+ * Turn a file's metadata into its entry in the on-disk index
+ * @param normalizedDir Normalized path of the indexed directory
+ * @param item The file's metadata
+ * @returns The file's on-disk entry
+ */
+function toPersistedFile(normalizedDir: string, item: CodeMetadata): PersistedFile {
+  return {
+    file: path.relative(normalizedDir, item.file),
+    checksum: item.checksum,
+    size: item.size,
+    mtimeMs: item.mtimeMs,
+    chunks: item.chunks.map(chunk => ({
+      ...chunk,
+      keywords: Array.from(chunk.keywords.entries()),
+      positions: Array.from(chunk.positions.entries())
+    })),
+    lineOffsets: item.lineOffsets,
+    encoding: item.encoding,
+    trigrams: encodeTrigrams(item.trigrams)
+  };
+}
+
+/**
+ * Serialize each item of a list as it is iterated, so only one is held as a string at a time
+ * @param items Items to serialize
+ * @param toJson Turn an item into the value to serialize
+ * @returns JSON of each item
+ */
+function* serializeEach<T>(items: T[], toJson: (item: T) => unknown): Generator<string> {
+  for (const item of items) {
+    yield JSON.stringify(toJson(item));
+  }
+}
+
+/**
+ * Combine the matches of several query nodes, adding up the scores of each chunk
+ * @param matches Matches of each node. Undefined entries don't restrict the result
+ * @param mode 'intersect' keeps chunks matched by every node, 'union' chunks matched by any
+ * @returns Combined matches, or undefined if every entry was undefined
+ */
+function combineScores(matches: (Map<string, number> | undefined)[], mode: 'intersect' | 'union'): Map<string, number> | undefined {
+  return matches.reduce<Map<string, number> | undefined>((combined, current) => {
+    if (!combined || !current) {
+      return combined || current;
+    }
+    
+    const result = new Map<string, number>();
+    if (mode === 'union') {
+      for (const [chunkId, score] of [...combined, ...current]) {
+        result.set(chunkId, (result.get(chunkId) || 0) + score);
+      }
+    } else {
+      for (const [chunkId, score] of combined) {
+        if (current.has(chunkId)) {
+          result.set(chunkId, score + current.get(chunkId)!);
+        }
+      }
+    }
+    return result;
+  }, undefined);
+}
+
+/**
+ * Record what a query term added to a chunk's score, when scores are explained
+ * @param context State of the query evaluation
+ * @param chunkId Chunk id
+ * @param contribution The term's contribution, before it is split by field
+ */
+function addContribution(context: QueryContext, chunkId: string, contribution: Omit<TermContribution, 'fields'>): void {
+  const contributions = context.contributions?.get(chunkId);
+  if (contributions) {
+    contributions.push(contribution);
+  } else {
+    context.contributions?.set(chunkId, [contribution]);
+  }
+}
+
+/**
+ * Find the chunks satisfying a query filter
+ * @param field Filtered field
+ * @param value Normalized filter value
+ * @param chunks Every chunk of the directory, by chunk id
+ * @returns Map of the matching chunk ids to a score of 0
+ */
+function filterChunks(
+  field: FilterField,
+  value: string,
+  chunks: Map<string, { relativePath: string; chunk: CodeChunk }>
+): Map<string, number> {
+  const pattern = wildcardToRegExp(value, field === 'symbol');
+  const languageExtensions = field === 'lang' ? findLanguage(value)?.extensions || [] : [];
+  
+  const matches = new Map<string, number>();
+  for (const [chunkId, { relativePath, chunk }] of chunks) {
+    const extension = path.extname(relativePath).toLowerCase();
+    let isMatch: boolean;
+    switch (field) {
+      case 'path':
+        isMatch = pattern.test(relativePath);
+        break;
+      case 'ext':
+        isMatch = extension === `.${value}`;
+        break;
+      case 'lang':
+        isMatch = languageExtensions.includes(extension);
+        break;
+      case 'symbol':
+        // Methods match by their own name, their class's name, or both as Class.method
+        isMatch = [chunk.name, chunk.container, chunk.container && chunk.name && `${chunk.container}.${chunk.name}`]
+          .some(name => name && pattern.test(name));
+        break;
+      case 'kind':
+        isMatch = chunk.kind === value;
+        break;
+    }
+    if (isMatch) {
+      matches.set(chunkId, 0);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Build the regular expression an exact search runs
+ * @param pattern Regular expression, or literal text
+ * @param options Grep options
+ * @returns Global regular expression
+ * @throws SyntaxError if the pattern is not a valid regular expression
+ */
+function createGrepPattern(pattern: string, options: GrepOptions): RegExp {
+  let source = options.literal ? pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : pattern;
+  if (options.wholeWord) {
+    source = `(?<!\\w)(?:${source})(?!\\w)`;
+  }
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
 }
 
 export class CodeSearchEngine {
   // Map of directory paths to their respective indices
   private directoryIndices: Map<string, CodeMetadata[]> = new Map();
+  // Map of directory paths to the term → postings index built from their metadata
+  private invertedIndices: Map<string, InvertedIndex> = new Map();
+  // Map of directory paths to the lookups queries use, built from their metadata
+  private directoryLookups: Map<string, DirectoryLookups> = new Map();
   private indexedExtensions: Map<string, string[]> = new Map();
+  // Whether .gitignore files were respected when each directory was indexed
+  private gitignoreSettings: Map<string, boolean> = new Map();
+  private indexPath?: string;
+  // The on-disk index as this engine last read or wrote it, so saving a directory doesn't read the
+  // file back. Directories loaded or saved by this engine hold only their indexedAt time and are
+  // written from their metadata. Dropped when the file is changed by another process
+  private persistedIndex?: { stamp?: string; directories: Map<string, PersistedDirectory | string> };
+  private concurrency: number;
+  private storage: StorageMode;
+  private content: ContentStore;
+  private maxFileSize?: number;
+  private skipGenerated: boolean;
+  private bm25: BM25Parameters;
+  private stemming: boolean;
+  private synonyms: string[][];
   
   /**
    * Initialize the search engine
+   * @param indexPath Path of the on-disk index. If omitted, indices are kept in memory only
+   * @param options Engine options
+   * @throws RangeError if the concurrency isn't a whole number of at least 1, the storage mode is
+   * unknown, the memory budget isn't greater than 0, k1 or a field weight is negative or b isn't
+   * between 0 and 1
    */
-  constructor() {
-    // No need to load existing index, we'll create in-memory indices as needed
-  }
-  
-  /**
-   * Calculate file checksum to detect changes
-   * @param content File content
-   * @returns MD5 checksum
-   */
-  private calculateChecksum(content: string): string {
-    return crypto.createHash('md5').update(content).digest('hex');
-  }
-  
-  /**
-   * Extract keywords from code content
-   * @param code Source code content
-   * @returns Map of keywords to their frequency
-   */
-  private extractKeywords(code: string): Map<string, number> {
-    const keywords = new Map<string, number>();
-    
-    // Convert to lowercase and remove common symbols
-    const normalizedCode = code.toLowerCase()
-      .replace(/[^\w\s]/g, ' ')  // Replace non-alphanumeric chars with spaces
-      .replace(/\s+/g, ' ')      // Replace multiple spaces with a single space
-      .trim();
-    
-    // Split into words and count frequency
-    const words = normalizedCode.split(' ');
-    for (const word of words) {
-      // Skip short words and common programming keywords
-      if (word.length <= 2 || this.isCommonKeyword(word)) {
-        continue;
-      }
-      
-      keywords.set(word, (keywords.get(word) || 0) + 1);
+  constructor(indexPath?: string, options: EngineOptions = {}) {
+    if (options.concurrency !== undefined && (!Number.isInteger(options.concurrency) || options.concurrency < 1)) {
+      throw new RangeError(`Invalid concurrency ${options.concurrency}. Expected a whole number of at least 1`);
     }
-    
-    // Extract class and function names with higher weight
-    const classMatches = code.match(/class\s+(\w+)/g) || [];
-    for (const match of classMatches) {
-      const className = match.replace('class ', '').toLowerCase();
-      keywords.set(className, (keywords.get(className) || 0) + 10); // Higher weight for class names
+    if (options.storage !== undefined && !(STORAGE_MODES as readonly string[]).includes(options.storage)) {
+      throw new RangeError(`Invalid storage "${options.storage}". Expected one of ${STORAGE_MODES.join(', ')}`);
     }
-    
-    const functionMatches = code.match(/function\s+(\w+)|(\w+)\s*\(/g) || [];
-    for (const match of functionMatches) {
-      const functionName = match.replace(/function\s+|\s*\(/g, '').toLowerCase();
-      if (functionName.length > 2 && !this.isCommonKeyword(functionName)) {
-        keywords.set(functionName, (keywords.get(functionName) || 0) + 5); // Higher weight for function names
+    if (options.memoryBudget !== undefined && !(options.memoryBudget > 0)) {
+      throw new RangeError(`Invalid memoryBudget ${options.memoryBudget}. Expected a number greater than 0`);
+    }
+    // NaN fails both checks, so it is rejected too
+    if (options.k1 !== undefined && !(options.k1 >= 0 && options.k1 < Infinity)) {
+      throw new RangeError(`Invalid k1 ${options.k1}. Expected a number of at least 0`);
+    }
+    if (options.b !== undefined && !(options.b >= 0 && options.b <= 1)) {
+      throw new RangeError(`Invalid b ${options.b}. Expected a number from 0 to 1`);
+    }
+    for (const [field, weight] of Object.entries(options.fieldWeights ?? {})) {
+      if (!(FIELDS as readonly string[]).includes(field) || !(weight >= 0 && weight < Infinity)) {
+        throw new RangeError(`Invalid field weight ${field}=${weight}. Expected a number of at least 0 for one of ${FIELDS.join(', ')}`);
       }
     }
     
-    return keywords;
-  }
-  
-  /**
-   * Check if a word is a common programming keyword
-   * @param word Word to check
-   * @returns True if the word is a common keyword
-   */
-  private isCommonKeyword(word: string): boolean {
-    const commonKeywords = new Set([
-      'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'break', 'continue',
-      'return', 'try', 'catch', 'finally', 'throw', 'new', 'delete', 'typeof',
-      'instanceof', 'void', 'this', 'super', 'class', 'interface', 'extends',
-      'implements', 'static', 'public', 'private', 'protected', 'const', 'let',
-      'var', 'function', 'async', 'await', 'import', 'export', 'from', 'as',
-      'true', 'false', 'null', 'undefined', 'NaN', 'Infinity'
-    ]);
-    
-    return commonKeywords.has(word);
+    this.indexPath = indexPath;
+    this.concurrency = options.concurrency ?? Math.max(1, os.cpus().length);
+    this.storage = options.storage || 'memory';
+    this.maxFileSize = options.maxFileSize;
+    this.skipGenerated = options.skipGenerated !== false;
+    this.bm25 = {
+      k1: options.k1 ?? DEFAULT_BM25_PARAMETERS.k1,
+      b: options.b ?? DEFAULT_BM25_PARAMETERS.b,
+      fieldWeights: { ...DEFAULT_FIELD_WEIGHTS, ...options.fieldWeights }
+    };
+    this.stemming = options.stemming !== false;
+    this.synonyms = options.synonyms || [];
+    this.content = new ContentStore(
+      options.memoryBudget ?? (this.storage === 'disk' ? DEFAULT_DISK_MEMORY_BUDGET : Infinity)
+    );
   }
   
   /**
@@ -111,28 +546,38 @@ export class CodeSearchEngine {
   }
   
   /**
-   * Create a new search index from source files in the directory
+   * Create or update the search index for source files in the directory.
+   * Files whose checksum matches the existing index are reused, changed files are re-extracted
+   * and files that no longer exist are dropped.
    * @param directory Directory to index
    * @param extensions File extensions to include
    * @param forceReindex If true, reindex all files even if they're already in the index
-   * @param respectGitignore Whether to respect .gitignore files (default: true)
+   * @param respectGitignore Whether to respect .gitignore files (default: true). .ferretignore files always apply
+   * @returns Counts of added, updated, removed and unchanged files
    */
   async createIndex(
     directory: string, 
-    extensions?: string[]
-  ): Promise<void> {
+    extensions?: string[],
+    forceReindex: boolean = false,
+    respectGitignore: boolean = true
+  ): Promise<IndexStats> {
     const normalizedDir = this.getNormalizedDirectory(directory);
     
-    // Always create a fresh index for the directory
-    console.log(`Creating index for ${normalizedDir}`);
+    // Reuse the existing index for the directory unless a full rebuild was requested
+    const previous = forceReindex ? new Map<string, CodeMetadata>() : this.getExistingMetadata(normalizedDir);
+    if (previous.size > 0) {
+      logInfo(`Updating index for ${normalizedDir}`);
+    } else {
+      logInfo(`Creating index for ${normalizedDir}`);
+    }
     
     // Find all source files first
-    const files = await getSourceFiles(directory, extensions);
+    const files = await getSourceFiles(directory, extensions, { respectGitignore });
     
     // If no files found in the directory, try to search in subdirectories
     if (files.length === 0) {
-      console.log(`No files found directly in ${directory} with extensions ${extensions?.join(', ')}`);
-      console.log(`Checking subdirectories...`);
+      logInfo(`No files found directly in ${directory} with extensions ${extensions?.join(', ')}`);
+      logInfo(`Checking subdirectories...`);
       
       // Get subdirectories
       const fs = await import('fs');
@@ -149,18 +594,18 @@ export class CodeSearchEngine {
           })
           .map(item => path.join(directory, item));
         
-        console.log(`Found subdirectories: ${subdirs.join(', ')}`);
+        logInfo(`Found subdirectories: ${subdirs.join(', ')}`);
         
         // Try to index each subdirectory
         let allFiles: string[] = [];
         
         for (const subdir of subdirs) {
           try {
-            console.log(`Checking subdirectory: ${subdir}`);
-            const subFiles = await getSourceFiles(subdir, extensions);
+            logInfo(`Checking subdirectory: ${subdir}`);
+            const subFiles = await getSourceFiles(subdir, extensions, { respectGitignore });
             allFiles = [...allFiles, ...subFiles];
           } catch (subError) {
-            console.log(`Could not get files from ${subdir}: ${subError instanceof Error ? subError.message : String(subError)}`);
+            logInfo(`Could not get files from ${subdir}: ${subError instanceof Error ? subError.message : String(subError)}`);
           }
         }
         
@@ -174,44 +619,529 @@ export class CodeSearchEngine {
       }
     }
     
-    console.log(`Found ${files.length} source files to index`);
+    logInfo(`Found ${files.length} source files to index`);
     
     // Store the extensions used for this directory
     this.indexedExtensions.set(normalizedDir, extensions || ['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.cpp', '.cs']);
+    this.gitignoreSettings.set(normalizedDir, respectGitignore);
     
     // Create a new metadata array for this directory
     const metadata: CodeMetadata[] = [];
+    const stats: IndexStats = { added: 0, updated: 0, removed: 0, unchanged: 0, skipped: [] };
+    
+    // Files marked linguist-generated in .gitattributes are skipped without reading them
+    const attributes = new GitAttributes(normalizedDir);
+    const filesToAnalyze = files.filter(file => {
+      if (this.skipGenerated && attributes.isGenerated(file)) {
+        stats.skipped.push({ file, reason: 'generated' });
+        return false;
+      }
+      return true;
+    });
     
     // Process each file
-    console.log("Indexing files...");
+    logInfo("Indexing files...");
+    
+    const analyses = await this.analyzeFiles(normalizedDir, filesToAnalyze, previous);
     
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
+    for (let i = 0; i < filesToAnalyze.length; i++) {
+      const file = filesToAnalyze[i];
+      const analysis = analyses[i];
+      
+      if (analysis instanceof Error) {
+        logError(`Error processing ${file}: ${analysis}`);
+        continue;
+      }
+      
+      const result = this.toIndexEntry(file, analysis, previous.get(file));
+      if (result.status === 'skipped') {
+        stats.skipped.push({ file, reason: result.reason });
+        continue;
+      }
+      
+      metadata.push(result.item);
+      stats[result.status]++;
       
+      if (this.storage === 'memory' && 'code' in analysis) {
+        this.content.set(file, analysis.code);
+      }
+    }
+    
+    // Anything left over from the previous index was deleted or renamed
+    const currentFiles = new Set(metadata.map(item => item.file));
+    for (const file of previous.keys()) {
+      if (!currentFiles.has(file)) {
+        this.content.delete(file);
+        stats.removed++;
+      }
+    }
+    
+    // Store the metadata for this directory
+    this.setDirectoryIndex(normalizedDir, metadata);
+    
+    logInfo(`\nIndexing complete! Indexed ${metadata.length} files for directory ${normalizedDir}`);
+    logInfo(`Added: ${stats.added}, updated: ${stats.updated}, removed: ${stats.removed}, unchanged: ${stats.unchanged}, skipped: ${stats.skipped.length}`);
+    
+    this.saveIndex(normalizedDir);
+    
+    return stats;
+  }
+  
+  /**
+   * Read and analyze files, spreading the work over a pool of worker threads when there are
+   * enough files to make it worthwhile. Results are returned in the order of the input files,
+   * so the merged index is the same as with serial indexing.
+   * @param normalizedDir Normalized path of the indexed directory
+   * @param files Files to analyze
+   * @param previous Existing index entries, used to skip chunking unchanged files
+   * @returns The analysis of each file, or the error that occurred while analyzing it
+   */
+  private async analyzeFiles(
+    normalizedDir: string,
+    files: string[],
+    previous: Map<string, CodeMetadata>
+  ): Promise<(FileAnalysis | SkippedFile | Error)[]> {
+    const analyzeOptions = this.getAnalyzeOptions(normalizedDir);
+    const workerScript = new URL('./indexWorker.js', import.meta.url);
+    const workerCount = Math.min(this.concurrency, files.length);
+    
+    // Worker threads need the compiled worker script, which doesn't exist when running through ts-node
+    if (workerCount <= 1 || files.length < PARALLEL_THRESHOLD || !fs.existsSync(fileURLToPath(workerScript))) {
+      return files.map(file => {
+        try {
+          return analyzeFile(file, previous.get(file)?.checksum, analyzeOptions);
+        } catch (error) {
+          return error instanceof Error ? error : new Error(String(error));
+        }
+      });
+    }
+    
+    logInfo(`Using ${workerCount} worker threads`);
+    const pool = new WorkerPool<IndexTask, FileAnalysis | SkippedFile>(workerScript, workerCount);
+    
+    try {
+      return await Promise.all(files.map(file =>
+        pool.run({ file, knownChecksum: previous.get(file)?.checksum, options: analyzeOptions })
+          .catch((error: Error) => error)
+      ));
+    } finally {
+      await pool.close();
+    }
+  }
+  
+  /**
+   * Read a file and build its index entry, reusing the existing entry if the checksum is unchanged
+   * @param normalizedDir Normalized path of the indexed directory
+   * @param file File path
+   * @param existing Current index entry for the file, if any
+   * @returns The index entry and whether the file was added, updated or unchanged, or why it was skipped
+   */
+  private indexFile(normalizedDir: string, file: string, existing?: CodeMetadata): IndexEntryResult {
+    const analysis = analyzeFile(file, existing?.checksum, this.getAnalyzeOptions(normalizedDir));
+    if (this.storage === 'memory' && 'code' in analysis) {
+      this.content.set(file, analysis.code);
+    } else {
+      this.content.delete(file);
+    }
+    
+    return this.toIndexEntry(file, analysis, existing);
+  }
+  
+  /**
+   * Get the options for analyzing the files of a directory
+   * @param normalizedDir Normalized path of the indexed directory
+   * @returns Analyze options
+   */
+  private getAnalyzeOptions(normalizedDir: string): AnalyzeOptions {
+    return { maxFileSize: this.maxFileSize, skipGenerated: this.skipGenerated, root: normalizedDir };
+  }
+  
+  /**
+   * Turn the analysis of a file into its index entry
+   * @param file File path
+   * @param analysis Result of analyzeFile for the file
+   * @param existing Current index entry for the file, if any
+   * @returns The index entry and whether the file was added, updated or unchanged, or why it was skipped
+   */
+  private toIndexEntry(
+    file: string,
+    analysis: FileAnalysis | SkippedFile,
+    existing?: CodeMetadata
+  ): IndexEntryResult {
+    if ('skipped' in analysis) {
+      return { status: 'skipped', reason: analysis.skipped };
+    }
+    
+    // An unchanged file may still have been touched, so its modification time is brought up to date
+    if (existing && !analysis.chunks) {
+      return { item: { ...existing, size: analysis.size, mtimeMs: analysis.mtimeMs }, status: 'unchanged' };
+    }
+    
+    return {
+      item: {
+        file,
+        chunks: analysis.chunks || [],
+        checksum: analysis.checksum,
+        size: analysis.size,
+        mtimeMs: analysis.mtimeMs,
+        lineOffsets: analysis.lineOffsets || [],
+        encoding: analysis.encoding,
+        trigrams: analysis.trigrams || new Uint32Array()
+      },
+      status: existing ? 'updated' : 'added'
+    };
+  }
+  
+  /**
+   * Watch an indexed directory and keep its index up to date as files are created, edited,
+   * renamed or deleted. Bursts of events are debounced into a single update.
+   * @param directory Directory to watch
+   * @param options Watch options
+   * @returns Handle to stop watching
+   * @throws RangeError if the debounce period isn't a whole number of milliseconds of at least 0
+   */
+  async watch(directory: string, options: WatchOptions = {}): Promise<IndexWatcher> {
+    const normalizedDir = this.getNormalizedDirectory(directory);
+    const debounceMs = options.debounceMs ?? 300;
+    if (!Number.isInteger(debounceMs) || debounceMs < 0) {
+      throw new RangeError(`Invalid debounceMs ${debounceMs}. Expected a whole number of at least 0`);
+    }
+    
+    // Make sure there is an index to keep up to date
+    if (!this.directoryIndices.has(normalizedDir) && !this.loadIndex(normalizedDir)) {
+      await this.createIndex(directory, this.indexedExtensions.get(normalizedDir));
+    }
+    
+    const extensions = this.indexedExtensions.get(normalizedDir) || DEFAULT_EXTENSIONS;
+    const respectGitignore = this.gitignoreSettings.get(normalizedDir) !== false;
+    const isIgnoreFile = (changedPath: string) => IGNORE_FILES.includes(path.basename(changedPath));
+    let filter = createSourceFileFilter(normalizedDir, extensions, { respectGitignore });
+    let changedPaths = new Set<string>();
+    let timer: NodeJS.Timeout | undefined;
+    let updating: Promise<void> = Promise.resolve();
+    
+    const flush = () => {
+      const paths = changedPaths;
+      changedPaths = new Set();
+      timer = undefined;
+      
+      // Updates run one after another so a slow update never interleaves with the next burst
+      updating = updating.then(async () => {
+        try {
+          // A changed ignore file can include or exclude anything, so rebuild the filter
+          if (Array.from(paths).some(isIgnoreFile)) {
+            filter = createSourceFileFilter(normalizedDir, extensions, { respectGitignore });
+            watcher.rescan();
+          }
+          
+          const stats = await this.applyChanges(normalizedDir, paths, filter);
+          options.onUpdate?.(stats);
+        } catch (error) {
+          logError(`Error updating index for ${normalizedDir}: ${error}`);
+        }
+      });
+    };
+    
+    const watcher = new DirectoryWatcher(normalizedDir, (changedPath) => {
+      if (!isIgnoreFile(changedPath) && filter.isIgnored(changedPath)) {
+        return;
+      }
+      
+      changedPaths.add(changedPath);
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(flush, debounceMs);
+    }, (changedDirectory) => filter.isIgnored(changedDirectory, true));
+    
+    logInfo(`Watching ${normalizedDir} for changes`);
+    
+    return {
+      close: async () => {
+        watcher.close();
+        if (timer) {
+          clearTimeout(timer);
+          flush();
+        }
+        await updating;
+      }
+    };
+  }
+  
+  /**
+   * Apply a batch of filesystem changes to the index of a directory
+   * @param normalizedDir Normalized directory path
+   * @param changedPaths Absolute paths reported as changed
+   * @param filter Filter deciding which files belong in the index
+   * @returns Counts of added, updated, removed and unchanged files
+   */
+  private async applyChanges(
+    normalizedDir: string,
+    changedPaths: Set<string>,
+    filter: SourceFileFilter
+  ): Promise<IndexStats> {
+    const extensions = this.indexedExtensions.get(normalizedDir);
+    const current = new Map((this.directoryIndices.get(normalizedDir) || []).map(item => [item.file, item]));
+    const invertedIndex = this.invertedIndices.get(normalizedDir) || new InvertedIndex();
+    const stats: IndexStats = { added: 0, updated: 0, removed: 0, unchanged: 0, skipped: [] };
+    const attributes = new GitAttributes(normalizedDir);
+    
+    for (const changedPath of changedPaths) {
+      let stat: fs.Stats | undefined;
       try {
-        const content = fs.readFileSync(file, 'utf-8');
-        const checksum = this.calculateChecksum(content);
+        stat = fs.statSync(changedPath);
+      } catch (error) {
+        stat = undefined;
+      }
+      
+      // New or moved directories and ignore file changes can affect any number of files,
+      // so fall back to an incremental pass over the whole directory
+      const basename = path.basename(changedPath);
+      if (stat?.isDirectory() || IGNORE_FILES.includes(basename) || basename === '.gitattributes') {
+        return this.createIndex(normalizedDir, extensions, false, this.gitignoreSettings.get(normalizedDir) !== false);
+      }
+      
+      if (stat?.isFile() && filter.isSourceFile(changedPath)) {
+        let result: IndexEntryResult | undefined;
+        try {
+          result = this.skipGenerated && attributes.isGenerated(changedPath) ?
+            { status: 'skipped', reason: 'generated' } :
+            this.indexFile(normalizedDir, changedPath, current.get(changedPath));
+        } catch (error) {
+          logError(`Error processing ${changedPath}: ${error}`);
+          continue;
+        }
         
-        // Extract keywords from the content
-        const keywords = this.extractKeywords(content);
+        if (result.status !== 'skipped') {
+          if (result.status !== 'unchanged') {
+            const existing = current.get(changedPath);
+            if (existing) {
+              this.removeFromInvertedIndex(invertedIndex, existing);
+            }
+            this.addToInvertedIndex(invertedIndex, result.item);
+          }
+          current.set(changedPath, result.item);
+          stats[result.status]++;
+          continue;
+        }
         
-        // Create metadata
-        metadata.push({
-          file,
-          code: content,
-          keywords,
-          checksum
-        });
-      } catch (error) {
-        console.error(`Error processing ${file}: ${error}`);
+        // A skipped file is dropped from the index below if it was indexed before
+        stats.skipped.push({ file: changedPath, reason: result.reason });
+      }
+      
+      // The path was deleted, renamed away or is no longer a source file. If it was a directory,
+      // everything that was indexed beneath it goes as well
+      const directoryPrefix = changedPath + path.sep;
+      for (const [file, item] of Array.from(current.entries())) {
+        if (file === changedPath || file.startsWith(directoryPrefix)) {
+          current.delete(file);
+          this.removeFromInvertedIndex(invertedIndex, item);
+          this.content.delete(file);
+          stats.removed++;
+        }
+      }
+    }
+    
+    // Unchanged files are saved too, since their modification times were refreshed
+    if (stats.added || stats.updated || stats.removed || stats.unchanged) {
+      this.directoryIndices.set(normalizedDir, Array.from(current.values()));
+      this.invertedIndices.set(normalizedDir, invertedIndex);
+      this.buildLookups(normalizedDir);
+      logInfo(`Index updated for ${normalizedDir}. Added: ${stats.added}, updated: ${stats.updated}, removed: ${stats.removed}`);
+      this.saveIndex(normalizedDir);
+    } else if (Array.from(changedPaths).some(changedPath => path.basename(changedPath) === SYNONYMS_FILE)) {
+      // Synonyms are read along with the other lookups
+      this.buildLookups(normalizedDir);
+    }
+    
+    return stats;
+  }
+  
+  /**
+   * Get the current index entries for a directory, from memory or from the on-disk index
+   * @param normalizedDir Normalized directory path
+   * @returns Map of file paths to their metadata
+   */
+  private getExistingMetadata(normalizedDir: string): Map<string, CodeMetadata> {
+    const inMemory = this.directoryIndices.get(normalizedDir);
+    if (inMemory) {
+      return new Map(inMemory.map(item => [item.file, item]));
+    }
+    
+    const entry = this.readPersistedDirectory(normalizedDir);
+    if (!entry) {
+      return new Map();
+    }
+    
+    return new Map(entry.files.map(persisted => {
+      const item = fromPersistedFile(normalizedDir, persisted);
+      return [item.file, item];
+    }));
+  }
+  
+  /**
+   * Get the directories of the on-disk index, reading the file only if it changed since this
+   * engine last read or wrote it
+   * @param indexPath Index path
+   * @returns Entry of each directory, or its indexedAt time if it is written from its metadata
+   */
+  private getIndexFile(indexPath: string): Map<string, PersistedDirectory | string> {
+    const stamp = getIndexFileStamp(indexPath);
+    if (!this.persistedIndex || this.persistedIndex.stamp !== stamp) {
+      const index = readIndexFile(indexPath);
+      this.persistedIndex = { stamp, directories: new Map(Object.entries(index?.directories || {})) };
+    }
+    return this.persistedIndex.directories;
+  }
+  
+  /**
+   * Read the on-disk index entry for a directory
+   * @param normalizedDir Normalized directory path
+   * @returns The persisted entry, or undefined if the directory is not in the on-disk index or is
+   * already held in memory
+   */
+  private readPersistedDirectory(normalizedDir: string): PersistedDirectory | undefined {
+    if (!this.indexPath) {
+      return undefined;
+    }
+    
+    const entry = this.getIndexFile(this.indexPath).get(normalizedDir);
+    return typeof entry === 'object' ? entry : undefined;
+  }
+  
+  /**
+   * Write the index for a directory to the on-disk index, keeping the entries of other directories
+   * @param normalizedDir Normalized directory path
+   */
+  private saveIndex(normalizedDir: string): void {
+    if (!this.indexPath) {
+      return;
+    }
+    
+    const directories = this.getIndexFile(this.indexPath);
+    directories.set(normalizedDir, new Date().toISOString());
+    
+    const serialized = Array.from(directories, ([directory, entry]): [string, SerializedDirectory] => {
+      if (typeof entry === 'object') {
+        const { files, ...settings } = entry;
+        return [directory, { settings, files: serializeEach(files, file => file) }];
+      }
+      return [directory, {
+        settings: {
+          extensions: this.indexedExtensions.get(directory) || [],
+          respectGitignore: this.gitignoreSettings.get(directory) !== false,
+          indexedAt: entry
+        },
+        files: serializeEach(this.directoryIndices.get(directory) || [], item => toPersistedFile(directory, item))
+      }];
+    });
+    
+    writeIndexFile(this.indexPath, serialized);
+    this.persistedIndex = { stamp: getIndexFileStamp(this.indexPath), directories };
+    logInfo(`Saved index to ${this.indexPath}`);
+  }
+  
+  /**
+   * Load the index for a directory from the on-disk index
+   * @param normalizedDir Normalized directory path
+   * @returns True if an index for the directory was found and loaded
+   */
+  private loadIndex(normalizedDir: string): boolean {
+    const entry = this.readPersistedDirectory(normalizedDir);
+    if (!entry) {
+      return false;
+    }
+    
+    // File content is not loaded here; it is read from disk when a result needs it
+    const metadata: CodeMetadata[] = [];
+    for (const persisted of entry.files) {
+      const file = path.join(normalizedDir, persisted.file);
+      
+      // Skip files that were removed since the index was written
+      if (!fs.existsSync(file)) {
         continue;
       }
+      
+      metadata.push(fromPersistedFile(normalizedDir, persisted));
+    }
+    
+    this.setDirectoryIndex(normalizedDir, metadata);
+    this.indexedExtensions.set(normalizedDir, entry.extensions);
+    this.gitignoreSettings.set(normalizedDir, entry.respectGitignore !== false);
+    // The directory is now held in memory, so later saves write it from there
+    this.persistedIndex?.directories.set(normalizedDir, entry.indexedAt);
+    
+    logInfo(`Loaded index for ${normalizedDir} from ${this.indexPath} (${metadata.length} files)`);
+    return true;
+  }
+  
+  /**
+   * Store the metadata for a directory and build its inverted index
+   * @param normalizedDir Normalized directory path
+   * @param metadata Metadata of every indexed file in the directory
+   */
+  private setDirectoryIndex(normalizedDir: string, metadata: CodeMetadata[]): void {
+    const invertedIndex = new InvertedIndex();
+    for (const item of metadata) {
+      this.addToInvertedIndex(invertedIndex, item);
     }
     
-    // Store the metadata for this directory
     this.directoryIndices.set(normalizedDir, metadata);
+    this.invertedIndices.set(normalizedDir, invertedIndex);
+    this.buildLookups(normalizedDir);
+  }
+  
+  /**
+   * Build the lookups that queries on a directory use from its current metadata
+   * @param normalizedDir Normalized directory path
+   */
+  private buildLookups(normalizedDir: string): void {
+    const metadata = this.directoryIndices.get(normalizedDir) || [];
+    const chunks = new Map<string, { relativePath: string; chunk: CodeChunk }>();
+    for (const item of metadata) {
+      const relativePath = path.relative(normalizedDir, item.file).split(path.sep).join('/');
+      item.chunks.forEach((chunk, index) => chunks.set(getChunkId(item.file, index), { relativePath, chunk }));
+    }
     
-    console.log(`\nIndexing complete! Indexed ${metadata.length} files for directory ${normalizedDir}`);
+    this.directoryLookups.set(normalizedDir, {
+      files: new Map(metadata.map(item => [item.file, item])),
+      chunks,
+      synonyms: new SynonymDictionary(normalizedDir, this.synonyms)
+    });
+  }
+  
+  /**
+   * Get the lookups that queries on a directory use
+   * @param normalizedDir Normalized directory path
+   * @returns The directory's lookups
+   */
+  private getLookups(normalizedDir: string): DirectoryLookups {
+    if (!this.directoryLookups.has(normalizedDir)) {
+      this.buildLookups(normalizedDir);
+    }
+    return this.directoryLookups.get(normalizedDir)!;
+  }
+  
+  /**
+   * Add every chunk of a file to an inverted index
+   * @param invertedIndex Inverted index to update
+   * @param item Index entry of the file
+   */
+  private addToInvertedIndex(invertedIndex: InvertedIndex, item: CodeMetadata): void {
+    item.chunks.forEach((chunk, index) => {
+      invertedIndex.addDocument(getChunkId(item.file, index), chunk.keywords, chunk.positions, chunk.linePositions);
+    });
+  }
+  
+  /**
+   * Remove every chunk of a file from an inverted index
+   * @param invertedIndex Inverted index to update
+   * @param item Index entry of the file, as it was added
+   */
+  private removeFromInvertedIndex(invertedIndex: InvertedIndex, item: CodeMetadata): void {
+    item.chunks.forEach((_chunk, index) => {
+      invertedIndex.removeDocument(getChunkId(item.file, index));
+    });
   }
   
   /**
@@ -228,79 +1158,122 @@ export class CodeSearchEngine {
    * Quick search to just get relevant file paths without code content
    * @param query Search query
    * @param directory Directory to search in
-   * @returns Array of file paths
+   * @param options Which files to return: at most limit files (default: 10), after skipping offset
+   * or starting where the page of a cursor from an earlier call left off
+   * @returns The requested page of file paths, the number of matching files, and the next page's cursor
+   * @throws RangeError if the limit or offset is invalid
+   * @throws InvalidCursorError if the cursor was issued for another query or directory, or for chunks
    */
-  async getRelevantFiles(query: string, directory: string): Promise<string[]> {
-    const results = await this.search(query, directory);
-    return results.map(result => result.file);
+  async getRelevantFiles(
+    query: string,
+    directory: string,
+    options: Pick<SearchOptions, 'limit' | 'offset' | 'cursor'> = {}
+  ): Promise<FilePage> {
+    const { start, limit, search } = this.getPageRange(query, directory, options, 'files');
+    const { results } = await this.rankChunks(query, directory);
+    const files = Array.from(new Set(results.map(result => result.file)));
+    const end = start + limit;
+    return {
+      files: files.slice(start, end),
+      start,
+      total: files.length,
+      nextCursor: end < files.length ? encodeCursor(search, end) : undefined
+    };
   }
   
   /**
-   * Perform keyword-based search on code files
-   * @param query Search query
+   * Perform keyword-based search on the chunks of code files. Words score with BM25F, quoted
+   * phrases must occur word for word, filters and boolean operators select the chunks, and
+   * chunks where the query words occur close together score higher.
+   * @param query Parsed search query
    * @param directory Directory to search in
-   * @returns Map of file paths to keyword scores
+   * @param explain Whether to explain the score of each chunk
+   * @returns Map of chunk ids to keyword scores, the spelling corrections that matched each chunk,
+   * the lines within each chunk on which the query's phrases start, what to highlight in the
+   * chunks, and the explanation of each score if requested and the keyword index was used
    */
-  private keywordSearch(query: string, directory: string): Map<string, number> {
-    const queryKeywords = query.toLowerCase().split(/\s+/).filter(k => k.length > 2);
-    const scores = new Map<string, number>();
-    
-    // If no meaningful keywords, return empty map
-    if (queryKeywords.length === 0) {
-      return scores;
-    }
+  private keywordSearch(
+    query: QueryNode,
+    directory: string,
+    explain: boolean
+  ): {
+    scores: Map<string, number>;
+    corrections: Map<string, QueryCorrection[]>;
+    phraseLines: Map<string, number[]>;
+    highlights: HighlightTerms;
+    explanations?: Map<string, ScoreExplanation>;
+  } {
+    const normalizedDir = this.getNormalizedDirectory(directory);
+    const corrections = new Map<string, QueryCorrection[]>();
+    const phraseLines = new Map<string, number[]>();
     
-    console.log(`Searching for keywords: ${queryKeywords.join(', ')}`);
+    logInfo(`Parsed query: ${formatQuery(query)}`);
     
-    // Get metadata for the directory
+    // Get metadata and the inverted index for the directory
     const metadata = this.getMetadataForDirectory(directory);
+    const invertedIndex = this.invertedIndices.get(normalizedDir);
     
-    // Check if we have pre-built keyword indices
-    const hasKeywordIndices = metadata.some(item => {
-      if (!item.keywords) return false;
-      if (item.keywords instanceof Map) return item.keywords.size > 0;
-      return Array.isArray(item.keywords) && item.keywords.length > 0;
-    });
-    
-    if (hasKeywordIndices) {
-      console.log('Using pre-built keyword indices');
+    if (invertedIndex && invertedIndex.dictionary.size > 0) {
+      logInfo('Using inverted keyword index');
       
-      // Use pre-built keyword indices
-      for (const item of metadata) {
-        if (!item.keywords) continue;
-        
-        let score = 0;
-        const keywordsMap = item.keywords instanceof Map ? 
-          item.keywords : 
-          new Map<string, number>(item.keywords as [string, number][]);
-        
-        for (const keyword of queryKeywords) {
-          const keywordScore = keywordsMap.get(keyword) || 0;
-          score += keywordScore * 0.01;
-          
-          // Check for partial matches (e.g. "email" matches "emailService")
-          for (const [indexedKeyword, indexedScore] of keywordsMap.entries()) {
-            if (typeof indexedKeyword === 'string' && 
-                indexedKeyword.includes(keyword) && 
-                indexedKeyword !== keyword) {
-              score += indexedScore * 0.005; // Lower weight for partial matches
-            }
-          }
-        }
-        
-        if (score > 0) {
-          scores.set(item.file, score);
+      const { chunks, synonyms } = this.getLookups(normalizedDir);
+      const context: QueryContext = {
+        invertedIndex,
+        synonyms,
+        chunks,
+        corrections,
+        phraseLines,
+        keywordTerms: [],
+        contributions: explain ? new Map() : undefined,
+        highlights: { words: new Set(), fragments: new Set() }
+      };
+      const scores = this.evaluateQuery(query, context, false) || new Map<string, number>();
+      
+      // Chunks where the keywords occur close together rank above chunks where they are scattered
+      const proximityFactors = new Map<string, number>();
+      if (context.keywordTerms.length > 1) {
+        for (const [chunkId, score] of scores) {
+          const factor = proximityBoost(invertedIndex, chunkId, context.keywordTerms);
+          proximityFactors.set(chunkId, factor);
+          scores.set(chunkId, score * factor);
         }
       }
-    } else {
-      console.log('No pre-built keyword indices found, falling back to on-the-fly search');
       
-      // Fall back to on-the-fly search
-      for (const item of metadata) {
-        const code = item.code.toLowerCase();
+      if (!context.contributions) {
+        return { scores, corrections, phraseLines, highlights: context.highlights };
+      }
+      
+      // Split each term's contribution by field, now that only the chunks that matched are left
+      const explanations = new Map<string, ScoreExplanation>();
+      for (const chunkId of scores.keys()) {
+        const terms = (context.contributions.get(chunkId) || []).map(contribution => {
+          const terms = contribution.terms.filter(term => invertedIndex.getPostings(term).has(chunkId));
+          return { ...contribution, terms, fields: explainFields(invertedIndex, terms, chunkId, contribution.score, this.bm25) };
+        });
+        const factor = proximityFactors.get(chunkId);
+        explanations.set(chunkId, { terms, boosts: factor !== undefined && factor > 1 ? [{ name: 'proximity', factor }] : [] });
+      }
+      return { scores, corrections, phraseLines, highlights: context.highlights, explanations };
+    }
+    
+    logInfo('No pre-built keyword indices found, falling back to on-the-fly search');
+    
+    // Fall back to on-the-fly search for the query's words, ignoring operators and filters
+    const scores = new Map<string, number>();
+    const queryKeywords = Array.from(new Set(getSearchedText(query).flatMap(text => tokenize(text))));
+    const highlights: HighlightTerms = { words: new Set(), fragments: new Set(queryKeywords.filter(k => k.length > 2)) };
+    for (const item of metadata) {
+      const content = this.content.get(item.file);
+      if (content === undefined) {
+        continue;
+      }
+      const lines = content.toLowerCase().split('\n');
+      
+      item.chunks.forEach((chunk, index) => {
+        const code = lines.slice(chunk.startLine - 1, chunk.endLine).join('\n');
         let score = 0;
         
-        for (const keyword of queryKeywords) {
+        for (const keyword of queryKeywords.filter(k => k.length > 2)) {
           // Count occurrences of the keyword in the code
           const regex = new RegExp(keyword, 'g');
           const matches = code.match(regex);
@@ -320,28 +1293,373 @@ export class CodeSearchEngine {
         }
         
         if (score > 0) {
-          scores.set(item.file, score);
+          scores.set(getChunkId(item.file, index), score);
+        }
+      });
+    }
+    
+    return { scores, corrections, phraseLines, highlights };
+  }
+  
+  /**
+   * Find and score the chunks matching a parsed query
+   * @param node Query node to evaluate
+   * @param context State of the evaluation
+   * @param negated Whether the node is inside a NOT. Matches of negated nodes only exclude chunks,
+   * so their corrections, phrase lines and terms aren't recorded
+   * @returns Map of matching chunk ids to their score, or undefined if the node has nothing to
+   * search for (like a word that is too short) and shouldn't restrict the results
+   */
+  private evaluateQuery(node: QueryNode, context: QueryContext, negated: boolean): Map<string, number> | undefined {
+    switch (node.type) {
+      case 'word':
+        return node.wildcard
+          ? this.scoreWildcard(node.text.toLowerCase(), context, negated)
+          : this.scoreWord(node.text, context, negated);
+      case 'phrase':
+        return this.scorePhrase(node.text, context, negated);
+      case 'filter':
+        return filterChunks(node.field, node.value, context.chunks);
+      case 'not': {
+        const excluded = this.evaluateQuery(node.child, context, !negated);
+        if (!excluded) {
+          return undefined;
+        }
+        return new Map(Array.from(context.chunks.keys()).filter(chunkId => !excluded.has(chunkId)).map(chunkId => [chunkId, 0]));
+      }
+      case 'and':
+        return combineScores(node.children.map(child => this.evaluateQuery(child, context, negated)), 'intersect');
+      case 'or':
+        return combineScores(node.children.map(child => this.evaluateQuery(child, context, negated)), 'union');
+      case 'any': {
+        // Phrases, filters and negations restrict the results; the other children are alternatives
+        const isRestriction = (child: QueryNode) => child.type === 'phrase' || child.type === 'filter' || child.type === 'not';
+        const alternatives = combineScores(
+          node.children.filter(child => !isRestriction(child)).map(child => this.evaluateQuery(child, context, negated)),
+          'union'
+        );
+        const restrictions = node.children.filter(isRestriction).map(child => this.evaluateQuery(child, context, negated));
+        return combineScores([alternatives, ...restrictions], 'intersect');
+      }
+    }
+  }
+  
+  /**
+   * Score the chunks matching a query word. The word is tokenized like the code, so identifiers
+   * match by their sub-words, and the scores of its tokens add up
+   * @param word Query word
+   * @param context State of the evaluation
+   * @param negated Whether the word is inside a NOT
+   * @returns Map of matching chunk ids to their score, or undefined if the word has nothing to search for
+   */
+  private scoreWord(word: string, context: QueryContext, negated: boolean): Map<string, number> | undefined {
+    // Short tokens and English stopwords are only kept if they have synonyms, like "db". Reserved
+    // words the user typed are kept, as they are indexed where they are part of an identifier
+    const keywords = Array.from(new Set(tokenize(word)))
+      .filter(k => isIndexedWord(k, getCommonStopwords()) || context.synonyms.expand(k).length > 1);
+    if (keywords.length === 0) {
+      return undefined;
+    }
+    return combineScores(keywords.map(keyword => this.scoreKeyword(keyword, context, negated)), 'union');
+  }
+  
+  /**
+   * Score the chunks matching a single keyword, by its synonyms and stem, by partial matches,
+   * and by spelling corrections if nothing else matches
+   * @param keyword Lowercase keyword
+   * @param context State of the evaluation
+   * @param negated Whether the keyword is inside a NOT
+   * @returns Map of matching chunk ids to their score
+   */
+  private scoreKeyword(keyword: string, context: QueryContext, negated: boolean): Map<string, number> {
+    const { invertedIndex, synonyms } = context;
+    
+    // Synonyms and words with the same stem count as the keyword itself
+    const matchingTerms = new Set<string>();
+    for (const variant of synonyms.expand(keyword)) {
+      if (this.stemming) {
+        invertedIndex.dictionary.withStem(variant).forEach(term => matchingTerms.add(term));
+      } else if (invertedIndex.dictionary.has(variant)) {
+        matchingTerms.add(variant);
+      }
+    }
+    const keywordScores = scoreTerms(invertedIndex, Array.from(matchingTerms), this.bm25);
+    
+    // How each chunk's score came about, only tracked when scores are explained
+    const sources = context.contributions && !negated ? new Map<string, { match: MatchType; terms: string[] }>() : undefined;
+    if (sources) {
+      const exactTerms = Array.from(matchingTerms);
+      keywordScores.forEach((_score, chunkId) => sources.set(chunkId, { match: 'exact', terms: exactTerms }));
+    }
+    
+    // Check for partial matches (e.g. "mail" matches "email") in chunks without an exact match.
+    // The words containing the keyword are scored together, with the document frequency of every
+    // chunk that contains the keyword, so a rare word containing it never outscores the keyword itself.
+    // They also count for less than an exact match
+    const partialTerms = keyword.length > 2
+      ? invertedIndex.dictionary.containing(keyword).filter(term => !matchingTerms.has(term))
+      : [];
+    if (partialTerms.length > 0) {
+      for (const [chunkId, containingScore] of scoreTerms(invertedIndex, [...matchingTerms, ...partialTerms], this.bm25)) {
+        if (!keywordScores.has(chunkId)) {
+          keywordScores.set(chunkId, containingScore * PARTIAL_MATCH_WEIGHT);
+          sources?.set(chunkId, { match: 'partial', terms: partialTerms.filter(term => invertedIndex.getPostings(term).has(chunkId)) });
+        }
+      }
+    }
+    
+    // A keyword that matches nothing may be misspelled, so try the closest indexed terms
+    if (keywordScores.size === 0 && keyword.length >= FUZZY_MIN_LENGTH) {
+      const maxDistance = keyword.length <= 5 ? 1 : 2;
+      const candidates = invertedIndex.dictionary.similarTo(keyword, maxDistance);
+      const closest = candidates.filter(candidate => candidate.distance === candidates[0].distance);
+      
+      for (const { term } of closest) {
+        matchingTerms.add(term);
+        for (const [chunkId, termScore] of scoreTerms(invertedIndex, [term], this.bm25)) {
+          const fuzzyScore = termScore * FUZZY_MATCH_WEIGHT;
+          if (fuzzyScore > (keywordScores.get(chunkId) || 0)) {
+            keywordScores.set(chunkId, fuzzyScore);
+            sources?.set(chunkId, { match: 'fuzzy', terms: [term] });
+          }
+          if (!negated) {
+            context.corrections.set(chunkId, [...(context.corrections.get(chunkId) || []), { term: keyword, correction: term }]);
+          }
         }
       }
     }
     
+    if (!negated) {
+      context.keywordTerms.push(Array.from(matchingTerms));
+      matchingTerms.forEach(term => context.highlights.words.add(term));
+      if (partialTerms.length > 0) {
+        context.highlights.fragments.add(keyword);
+      }
+    }
+    if (sources) {
+      for (const [chunkId, score] of keywordScores) {
+        addContribution(context, chunkId, { query: keyword, ...sources.get(chunkId)!, score });
+      }
+    }
+    return keywordScores;
+  }
+  
+  /**
+   * Score the chunks matching a query word with * wildcards. Every term matching the pattern
+   * counts as the word itself
+   * @param pattern Lowercase pattern
+   * @param context State of the evaluation
+   * @param negated Whether the pattern is inside a NOT
+   * @returns Map of matching chunk ids to their score
+   */
+  private scoreWildcard(pattern: string, context: QueryContext, negated: boolean): Map<string, number> {
+    const terms = context.invertedIndex.dictionary.matching(pattern);
+    const scores = scoreTerms(context.invertedIndex, terms, this.bm25);
+    if (!negated) {
+      context.keywordTerms.push(terms);
+      terms.forEach(term => context.highlights.words.add(term));
+    }
+    if (!negated && context.contributions) {
+      for (const [chunkId, score] of scores) {
+        addContribution(context, chunkId, { query: pattern, match: 'wildcard', terms, score });
+      }
+    }
     return scores;
   }
   
   /**
-   * Search for code snippets that match the query
+   * Score the chunks containing a phrase, word for word. Each matching chunk scores the sum of
+   * the scores of the phrase's words
+   * @param phrase Phrase text
+   * @param context State of the evaluation
+   * @param negated Whether the phrase is inside a NOT
+   * @returns Map of matching chunk ids to their score, or undefined if the phrase has no indexed words
+   */
+  private scorePhrase(phrase: string, context: QueryContext, negated: boolean): Map<string, number> | undefined {
+    const { invertedIndex, phraseLines } = context;
+    const words = tokenizePhrase(phrase).filter(word => isIndexedWord(word.term, getCommonStopwords()));
+    if (words.length === 0) {
+      return undefined;
+    }
+    
+    const terms = Array.from(new Set(words.map(word => word.term)));
+    if (!negated) {
+      terms.forEach(term => context.highlights.words.add(term));
+    }
+    const termScores = terms.map(term => scoreTerms(invertedIndex, [term], this.bm25));
+    const candidates = termScores.reduce((smallest, current) => current.size < smallest.size ? current : smallest);
+    
+    const phraseScores = new Map<string, number>();
+    for (const chunkId of candidates.keys()) {
+      const starts = findPhrase(invertedIndex, chunkId, words);
+      if (starts.length === 0) {
+        continue;
+      }
+      
+      phraseScores.set(chunkId, termScores.reduce((sum, termScore) => sum + (termScore.get(chunkId) || 0), 0));
+      if (!negated && context.contributions) {
+        terms.forEach((term, index) =>
+          addContribution(context, chunkId, { query: phrase, match: 'phrase', terms: [term], score: termScores[index].get(chunkId)! }));
+      }
+      if (!negated) {
+        const lines = starts.map(start => invertedIndex.getLine(chunkId, start));
+        const allLines = new Set([...(phraseLines.get(chunkId) || []), ...lines]);
+        phraseLines.set(chunkId, Array.from(allLines).sort((a, b) => a - b));
+      }
+    }
+    return phraseScores;
+  }
+  
+  /**
+   * Search for code chunks that match the query
    * @param query Search query
-   * @returns Array of search results
+   * @param directory Directory to search in
+   * @param options Search options
+   * @returns Array of search results for the requested page
+   */
+  async search(query: string, directory: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    return (await this.searchPage(query, directory, options)).results;
+  }
+  
+  /**
+   * Search for code chunks that match the query, one page at a time. Pass the returned
+   * nextCursor back to get the following page
+   * @param query Search query
+   * @param directory Directory to search in
+   * @param options Search options
+   * @returns The requested page of results, the number of matching chunks, and the next page's cursor
+   * @throws RangeError if the limit, offset, context or number of snippets is invalid
+   * @throws InvalidCursorError if the cursor was issued for another query or directory
+   */
+  async searchPage(query: string, directory: string, options: SearchOptions = {}): Promise<SearchPage> {
+    // Bad cursors fail before any ranking work is done
+    const { start, limit, search } = this.getPageRange(query, directory, options);
+    const snippetOptions = getSnippetOptions(options);
+    const { results: rankedChunks, highlights } = await this.rankChunks(query, directory, options);
+    const { files } = this.getLookups(this.getNormalizedDirectory(directory));
+    
+    // Content is only read for the chunks that are returned
+    const end = Math.min(start + limit, rankedChunks.length);
+    const results: SearchResult[] = [];
+    for (const result of rankedChunks.slice(start, end)) {
+      const item = files.get(result.file);
+      const state = item ? getFileState(item) : 'missing';
+      // Line offsets only hold while the file is unchanged, so changed files are read whole
+      const lines = state !== 'missing'
+        ? state === 'stale'
+          ? this.content.get(result.file)?.split('\n').slice(result.startLine - 1, result.endLine)
+          : this.content.readLines(result.file, item!.lineOffsets, result.startLine, result.endLine)
+        : undefined;
+      if (!lines) {
+        logError(`Skipping ${result.file}, which no longer exists or can't be read`);
+        continue;
+      }
+      
+      results.push({
+        ...result,
+        code: lines.join('\n'),
+        snippets: createSnippets(lines, result.startLine, highlights, result.matchLines, snippetOptions),
+        ...(state === 'stale' ? { stale: true } : {})
+      });
+    }
+    
+    return {
+      results,
+      total: rankedChunks.length,
+      nextCursor: end < rankedChunks.length ? encodeCursor(search, end) : undefined
+    };
+  }
+  
+  /**
+   * Work out which ranked results a page covers
+   * @param query Search query
+   * @param directory Directory to search in
+   * @param options Search options
+   * @param unit What is paged through, so a cursor for chunks can't be used for files and vice versa
+   * @returns Index of the first result of the page, the most results it holds, and the text
+   * identifying the search in cursors
+   * @throws RangeError if the limit or offset is invalid
+   * @throws InvalidCursorError if the cursor was issued for another query or directory
+   */
+  private getPageRange(
+    query: string,
+    directory: string,
+    options: SearchOptions,
+    unit: 'chunks' | 'files' = 'chunks'
+  ): { start: number; limit: number; search: string } {
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new RangeError(`Invalid limit ${limit}. Expected a positive whole number`);
+    }
+    
+    const search = `${this.getNormalizedDirectory(directory)}\n${unit === 'files' ? 'files\n' : ''}${query}`;
+    const start = options.cursor !== undefined ? decodeCursor(options.cursor, search) : options.offset ?? 0;
+    if (!Number.isInteger(start) || start < 0) {
+      throw new RangeError(`Invalid offset ${start}. Expected a whole number of at least 0`);
+    }
+    return { start, limit, search };
+  }
+  
+  /**
+   * Find every match of a regular expression or literal text in the indexed files of a directory,
+   * line by line. Unlike search, matches are exact and unranked.
+   * @param pattern Regular expression, or literal text in 'literal' mode
+   * @param directory Directory to search in
+   * @param options Grep options
+   * @returns Matches ordered by file, line and column
+   * @throws SyntaxError if the pattern is not a valid regular expression
    */
-  async search(query: string, directory: string): Promise<SearchResult[]> {
+  async grep(pattern: string, directory: string, options: GrepOptions = {}): Promise<GrepMatch[]> {
+    const regex = createGrepPattern(pattern, options);
+    const metadata = await this.ensureIndexed(directory);
+    
+    // Only read the files containing every trigram a match needs. The trigrams are those of the
+    // indexed content, so files changed since then are read whatever their trigrams
+    const requiredTrigrams = getRequiredTrigrams(pattern, options.literal || false);
+    const candidates = requiredTrigrams
+      ? metadata.filter(item => mayContainMatch(item.trigrams, requiredTrigrams) || getFileState(item) === 'stale')
+      : metadata;
+    logInfo(`Searching ${candidates.length} of ${metadata.length} files`);
+    
+    const matches: GrepMatch[] = [];
+    for (const item of [...candidates].sort((a, b) => a.file.localeCompare(b.file))) {
+      // Files deleted since they were indexed have nothing left to match
+      const content = this.content.get(item.file);
+      if (content === undefined) {
+        continue;
+      }
+      content.split('\n').forEach((rawLine, index) => {
+        const lineText = rawLine.replace(/\r$/, '');
+        regex.lastIndex = 0;
+        for (let match = regex.exec(lineText); match; match = regex.exec(lineText)) {
+          matches.push({ file: item.file, line: index + 1, column: match.index + 1, match: match[0], lineText });
+          // Step past empty matches so patterns like ^ don't match forever
+          if (match[0] === '') {
+            regex.lastIndex++;
+          }
+        }
+      });
+    }
+    
+    logInfo(`Found ${matches.length} matches for /${regex.source}/${regex.flags}`);
+    return matches;
+  }
+  
+  /**
+   * Make sure a directory is indexed, loading its index from disk or building it if needed
+   * @param directory Directory path
+   * @returns Metadata of the directory's indexed files
+   * @throws Error if the directory has no files to index
+   */
+  private async ensureIndexed(directory: string): Promise<CodeMetadata[]> {
     const normalizedDir = this.getNormalizedDirectory(directory);
     
-    // Check if we have an index for this directory
-    if (!this.directoryIndices.has(normalizedDir)) {
+    // Check if we have an index for this directory, in memory or on disk
+    if (!this.directoryIndices.has(normalizedDir) && !this.loadIndex(normalizedDir)) {
       // Create an index for this directory
-      console.log(`No index found for ${normalizedDir}, creating one...`);
+      logInfo(`No index found for ${normalizedDir}, creating one...`);
       const extensions = this.indexedExtensions.get(normalizedDir) || ['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.cpp', '.cs'];
-      await this.createIndex(directory, extensions);
+      await this.createIndex(directory, extensions, false, this.gitignoreSettings.get(normalizedDir) !== false);
     }
     
     const metadata = this.getMetadataForDirectory(directory);
@@ -349,26 +1667,62 @@ export class CodeSearchEngine {
     if (metadata.length === 0) {
       throw new Error(`No files indexed for directory ${directory}. Please index the directory first.`);
     }
+    return metadata;
+  }
+  
+  /**
+   * Score and rank the indexed chunks of a directory against a query, without reading their content
+   * @param query Search query
+   * @param directory Directory to search in
+   * @param options Search options
+   * @returns Ranked chunks with their scores, and what to highlight in them
+   */
+  private async rankChunks(
+    query: string,
+    directory: string,
+    options: SearchOptions = {}
+  ): Promise<{ results: Omit<SearchResult, 'code' | 'snippets'>[]; highlights: HighlightTerms }> {
+    // Malformed queries fail before any indexing work is done
+    const parsedQuery = parseQuery(query);
+    await this.ensureIndexed(directory);
     
     // Get keyword search scores
-    const keywordScores = this.keywordSearch(query, directory);
+    const { scores: keywordScores, corrections, phraseLines, highlights, explanations } = this.keywordSearch(
+      parsedQuery,
+      directory,
+      options.explain || false
+    );
+    const { files } = this.getLookups(this.getNormalizedDirectory(directory));
     
     // Sort by score and get top k
-    const scoredResults = Array.from(keywordScores.entries())
-      .map(([file, score]) => {
-        const item = metadata.find(m => m.file === file)!;
-        return {
-          file,
-          code: item.code,
-          similarityScore: score
-        };
-      })
-      .sort((a, b) => b.similarityScore - a.similarityScore);
+    const scoredResults: Omit<SearchResult, 'code' | 'snippets' | 'rank'>[] = [];
+    for (const [chunkId, score] of keywordScores) {
+      const { file, index } = parseChunkId(chunkId);
+      const chunk = files.get(file)?.chunks[index];
+      if (!chunk) {
+        continue;
+      }
+      
+      scoredResults.push({
+        file,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        kind: chunk.kind,
+        symbol: chunk.container && chunk.name ? `${chunk.container}.${chunk.name}` : chunk.name,
+        exported: chunk.exported,
+        similarityScore: score,
+        corrections: corrections.get(chunkId),
+        matchLines: phraseLines.get(chunkId)?.map(line => chunk.startLine + line),
+        explanation: explanations?.get(chunkId)
+      });
+    }
+    scoredResults.sort((a, b) => b.similarityScore - a.similarityScore);
     
     // Format results
-    return scoredResults.map((result, index) => ({
+    const results = scoredResults.map((result, index) => ({
       ...result,
       rank: index + 1
     }));
+    return { results, highlights };
   }
 }
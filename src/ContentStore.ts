@@ -0,0 +1,146 @@
+import fs from 'fs';
+import { decodeContent } from './analyzer.js';
+
+/**
+ * Least-recently-used cache of file contents, bounded by an approximate memory budget.
+ * Files that are not cached are read back from disk on demand.
+ */
+export class ContentStore {
+  // Map iteration order doubles as the recency order: the first entry is the least recently used
+  private entries: Map<string, string> = new Map();
+  private usedBytes = 0;
+  private maxBytes: number;
+
+  /**
+   * Create a content store
+   * @param maxBytes Memory budget for cached content in bytes
+   */
+  constructor(maxBytes: number = Infinity) {
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Approximate memory held by cached content, in bytes
+   */
+  get size(): number {
+    return this.usedBytes;
+  }
+
+  /**
+   * Cache the content of a file, evicting the least recently used files if the budget is exceeded
+   * @param file File path
+   * @param content File content
+   */
+  set(file: string, content: string): void {
+    this.delete(file);
+
+    const bytes = getMemorySize(content);
+    if (bytes > this.maxBytes) {
+      return;
+    }
+
+    this.entries.set(file, content);
+    this.usedBytes += bytes;
+
+    for (const [cachedFile] of this.entries) {
+      if (this.usedBytes <= this.maxBytes) {
+        break;
+      }
+      this.delete(cachedFile);
+    }
+  }
+
+  /**
+   * Get the content of a file, from the cache or from disk
+   * @param file File path
+   * @returns File content, or undefined if the file is no longer there or can't be read
+   */
+  get(file: string): string | undefined {
+    const cached = this.entries.get(file);
+    if (cached !== undefined) {
+      // Move the file to the most recently used position
+      this.entries.delete(file);
+      this.entries.set(file, cached);
+      return cached;
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = fs.readFileSync(file);
+    } catch {
+      return undefined;
+    }
+
+    // Decode the same way the indexer did, so non-UTF-8 files read back correctly
+    const content = decodeContent(buffer)?.code ?? '';
+    this.set(file, content);
+    return content;
+  }
+
+  /**
+   * Read a range of lines of a file. Uncached files are read from the byte offset of the first line,
+   * so only the requested lines are loaded.
+   * @param file File path
+   * @param lineOffsets Byte offset of the start of each line. Empty for files that aren't UTF-8,
+   * which are read whole
+   * @param startLine First line to read (1-based)
+   * @param endLine Last line to read (1-based, inclusive)
+   * @returns The requested lines, as many as the file still has, or undefined if the file is no
+   * longer there or can't be read
+   */
+  readLines(file: string, lineOffsets: number[], startLine: number, endLine: number): string[] | undefined {
+    if (this.entries.has(file) || lineOffsets.length === 0) {
+      return this.get(file)?.split('\n').slice(startLine - 1, endLine);
+    }
+
+    const start = lineOffsets[startLine - 1];
+    if (start === undefined) {
+      return [];
+    }
+
+    let buffer: Buffer;
+    let bytesRead: number;
+    try {
+      // Read up to the start of the line after the range, or to the end of the file
+      const end = lineOffsets[endLine] ?? fs.statSync(file).size;
+      buffer = Buffer.alloc(Math.max(0, end - start));
+      const fd = fs.openSync(file, 'r');
+      try {
+        bytesRead = fs.readSync(fd, buffer, 0, buffer.length, start);
+      } finally {
+        fs.closeSync(fd);
+      }
+    } catch {
+      return undefined;
+    }
+
+    // A file that shrank since it was indexed has fewer bytes left than the range spans
+    const text = buffer.subarray(0, bytesRead).toString('utf-8');
+    if (text === '') {
+      return [];
+    }
+    // The first line of a file with a byte order mark starts with it
+    return text.replace(/^\uFEFF/, '').replace(/\n$/, '').split('\n');
+  }
+
+  /**
+   * Remove a file from the cache
+   * @param file File path
+   */
+  delete(file: string): void {
+    const cached = this.entries.get(file);
+    if (cached !== undefined) {
+      this.entries.delete(file);
+      this.usedBytes -= getMemorySize(cached);
+    }
+  }
+}
+
+/**
+ * Approximate the memory a string occupies. JavaScript strings use two bytes per code unit.
+ * @param content String to measure
+ * @returns Size in bytes
+ */
+function getMemorySize(content: string): number {
+  return content.length * 2;
+}
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+import { logError } from './logger.js';
+
+/**
+ * Watches a directory and everything beneath it for changes. Uses a single recursive watcher
+ * where the platform supports one, and otherwise one watcher per directory, adding watchers for
+ * directories as they are created
+ */
+export class DirectoryWatcher {
+  private recursiveWatcher?: fs.FSWatcher;
+  // Watchers of single directories, keyed by path, when recursive watching isn't available
+  private watchers: Map<string, fs.FSWatcher> = new Map();
+
+  /**
+   * Start watching
+   * @param root Directory to watch
+   * @param onChange Called with the absolute path of each created, changed, renamed or deleted entry
+   * @param isIgnoredDirectory Whether changes in a directory can be ignored. Ignored directories
+   * aren't watched when watching directory by directory
+   */
+  constructor(
+    private root: string,
+    private onChange: (changedPath: string) => void,
+    private isIgnoredDirectory: (directory: string) => boolean = () => false
+  ) {
+    try {
+      this.recursiveWatcher = fs.watch(root, { recursive: true }, (_eventType, filename) => {
+        if (filename) {
+          this.onChange(path.join(root, filename.toString()));
+        }
+      });
+      this.recursiveWatcher.on('error', error => logError(`Error watching ${root}:`, error));
+    } catch (error) {
+      // Linux only has recursive watching from Node 19.1 on
+      if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+        throw error;
+      }
+      this.watchTree(root);
+    }
+  }
+
+  /**
+   * Start watching directories that were ignored before, after the ignore rules changed
+   */
+  rescan(): void {
+    if (!this.recursiveWatcher) {
+      this.watchTree(this.root);
+    }
+  }
+
+  /**
+   * Stop watching
+   */
+  close(): void {
+    this.recursiveWatcher?.close();
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+
+  /**
+   * Watch a directory and the directories beneath it that aren't watched yet
+   * @param directory Directory path
+   */
+  private watchTree(directory: string): void {
+    if (!this.watchers.has(directory)) {
+      try {
+        const watcher = fs.watch(directory, (_eventType, filename) => this.handleEvent(directory, filename?.toString()));
+        watcher.on('error', () => this.unwatch(directory));
+        this.watchers.set(directory, watcher);
+      } catch {
+        // The directory was removed or can't be read
+        return;
+      }
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory() && !this.isIgnoredDirectory(entryPath)) {
+        this.watchTree(entryPath);
+      }
+    }
+  }
+
+  /**
+   * Handle an event from the watcher of a single directory
+   * @param directory Watched directory
+   * @param filename Name of the entry that changed, if the platform reports it
+   */
+  private handleEvent(directory: string, filename: string | undefined): void {
+    const changedPath = filename ? path.join(directory, filename) : directory;
+
+    let isDirectory = false;
+    try {
+      isDirectory = fs.statSync(changedPath).isDirectory();
+    } catch {
+      // The entry was deleted or renamed away
+    }
+
+    if (isDirectory && !this.isIgnoredDirectory(changedPath)) {
+      this.watchTree(changedPath);
+    } else if (!isDirectory) {
+      this.unwatch(changedPath);
+    }
+    this.onChange(changedPath);
+  }
+
+  /**
+   * Stop watching a directory that was removed, and the directories beneath it
+   * @param directory Directory path
+   */
+  private unwatch(directory: string): void {
+    const prefix = directory + path.sep;
+    for (const [watchedDirectory, watcher] of Array.from(this.watchers.entries())) {
+      if (watchedDirectory === directory || watchedDirectory.startsWith(prefix)) {
+        watcher.close();
+        this.watchers.delete(watchedDirectory);
+      }
+    }
+  }
+}
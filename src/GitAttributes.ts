@@ -0,0 +1,119 @@
+import fs from 'fs';
+import path from 'path';
+import ignore from 'ignore';
+import { logError } from './logger.js';
+
+/**
+ * A .gitattributes line that sets or unsets linguist-generated
+ */
+interface GeneratedRule {
+  base: string;
+  matcher: ignore.Ignore;
+  generated: boolean;
+}
+
+/**
+ * Reads the `linguist-generated` attribute from the .gitattributes files of a directory tree.
+ * Like .gitignore files, each .gitattributes file applies to its own directory, and deeper
+ * files and later lines take precedence.
+ */
+export class GitAttributes {
+  private root: string;
+  // Rules read from the .gitattributes file of each directory, loaded on first use
+  private directoryRules: Map<string, GeneratedRule[]> = new Map();
+
+  /**
+   * Create a reader for the attributes of files under a directory
+   * @param directory Root directory
+   */
+  constructor(directory: string) {
+    this.root = path.resolve(directory);
+  }
+
+  /**
+   * Check whether a file is marked as generated with `linguist-generated`
+   * @param file Absolute file path under the root directory
+   * @returns True if the attribute is set for the file
+   */
+  isGenerated(file: string): boolean {
+    const absolutePath = path.resolve(file);
+    const relativeParent = path.relative(this.root, path.dirname(absolutePath));
+    if (relativeParent.startsWith('..') || path.isAbsolute(relativeParent)) {
+      return false;
+    }
+
+    // Collect the rules of each directory from the root down to the file's directory
+    const rules = [...this.getDirectoryRules(this.root)];
+    let currentDir = this.root;
+    for (const segment of relativeParent ? relativeParent.split(path.sep) : []) {
+      currentDir = path.join(currentDir, segment);
+      rules.push(...this.getDirectoryRules(currentDir));
+    }
+
+    let generated = false;
+    for (const rule of rules) {
+      const relativePath = path.relative(rule.base, absolutePath).split(path.sep).join('/');
+      if (rule.matcher.ignores(relativePath)) {
+        generated = rule.generated;
+      }
+    }
+    return generated;
+  }
+
+  /**
+   * Get the linguist-generated rules from the .gitattributes file in a directory
+   * @param directory Absolute directory path
+   * @returns Rules in file order
+   */
+  private getDirectoryRules(directory: string): GeneratedRule[] {
+    let rules = this.directoryRules.get(directory);
+    if (rules) {
+      return rules;
+    }
+
+    rules = [];
+    const attributesFile = path.join(directory, '.gitattributes');
+    if (fs.existsSync(attributesFile)) {
+      try {
+        rules = parseGeneratedRules(directory, fs.readFileSync(attributesFile, 'utf8'));
+      } catch (error) {
+        logError(`Error reading .gitattributes file at ${attributesFile}:`, error);
+      }
+    }
+
+    this.directoryRules.set(directory, rules);
+    return rules;
+  }
+}
+
+/**
+ * Parse the lines of a .gitattributes file that mention linguist-generated
+ * @param base Directory containing the file
+ * @param content File content
+ * @returns Rules in file order
+ */
+function parseGeneratedRules(base: string, content: string): GeneratedRule[] {
+  const rules: GeneratedRule[] = [];
+
+  for (const line of content.split('\n')) {
+    const [pattern, ...attributes] = line.trim().split(/\s+/);
+    if (!pattern || pattern.startsWith('#')) {
+      continue;
+    }
+
+    for (const attribute of attributes) {
+      let generated: boolean | undefined;
+      if (attribute === 'linguist-generated' || attribute === 'linguist-generated=true') {
+        generated = true;
+      } else if (attribute === '-linguist-generated' || attribute === 'linguist-generated=false') {
+        generated = false;
+      }
+
+      if (generated !== undefined) {
+        rules.push({ base, matcher: ignore().add(pattern), generated });
+      }
+    }
+  }
+
+  return rules;
+}
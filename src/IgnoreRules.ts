@@ -0,0 +1,280 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ignore from 'ignore';
+import { logError } from './logger.js';
+
+/**
+ * Name of the per-directory file listing paths Code Ferret should skip, using gitignore syntax.
+ * Unlike .gitignore it only affects indexing and search, and it is honored even with --no-gitignore.
+ */
+export const FERRETIGNORE_FILE = '.ferretignore';
+
+/**
+ * Names of files whose patterns are scoped to the directory containing them
+ */
+export const IGNORE_FILES = ['.gitignore', FERRETIGNORE_FILE];
+
+/**
+ * Patterns that apply to the directory they were read from
+ */
+interface RuleSet {
+  base: string;
+  ig: ignore.Ignore;
+}
+
+/**
+ * Options for ignore rules
+ */
+export interface IgnoreOptions {
+  respectGitignore?: boolean; // Whether to apply .gitignore, .git/info/exclude and the global excludes file (default: true)
+}
+
+/**
+ * Gitignore semantics for the paths under a directory.
+ *
+ * Rules come from, in increasing order of precedence: the global excludes file, .git/info/exclude,
+ * and the .gitignore files from the repository root down to the directory of the path being checked,
+ * each scoped to its own directory. .ferretignore files are layered on top in the same way.
+ * As in git, nothing beneath an ignored directory can be re-included.
+ */
+export class IgnoreRules {
+  private root: string;
+  private respectGitignore: boolean;
+  private baseRules: RuleSet[] = [];
+  // Rule sets read from the ignore files of each directory, loaded on first use
+  private directoryRules: Map<string, RuleSet[]> = new Map();
+  // Cached results for directories, since every path beneath them depends on them
+  private ignoredDirectories: Map<string, boolean> = new Map();
+
+  /**
+   * Load the ignore rules that apply to a directory
+   * @param directory Directory whose contents are checked
+   * @param options Ignore options
+   */
+  constructor(directory: string, options: IgnoreOptions = {}) {
+    this.root = path.resolve(directory);
+    this.respectGitignore = options.respectGitignore !== false;
+
+    // Never index dependencies or git metadata
+    this.baseRules.push({ base: this.root, ig: ignore().add(['node_modules/', '.git/']) });
+
+    const gitRoot = findGitRoot(this.root);
+    if (this.respectGitignore) {
+      const globalExcludes = getGlobalExcludesFile();
+      if (globalExcludes) {
+        this.addRulesFromFile(this.baseRules, gitRoot || this.root, globalExcludes);
+      }
+      if (gitRoot) {
+        this.addRulesFromFile(this.baseRules, gitRoot, path.join(gitRoot, '.git', 'info', 'exclude'));
+      }
+    }
+
+    // Ignore files in the directories above the indexed directory still apply to it.
+    // Without a repository, keep walking up to the filesystem root
+    const stopAt = gitRoot || path.parse(this.root).root;
+    const parents: string[] = [];
+    let currentDir = path.dirname(this.root);
+    while (this.root !== stopAt && currentDir.length >= stopAt.length) {
+      parents.push(currentDir);
+      if (currentDir === stopAt) {
+        break;
+      }
+      currentDir = path.dirname(currentDir);
+    }
+
+    for (const parent of parents.reverse()) {
+      this.baseRules.push(...this.getDirectoryRules(parent));
+    }
+  }
+
+  /**
+   * Check whether a path is ignored
+   * @param filePath Absolute path under the root directory
+   * @param isDirectory Whether the path is a directory
+   * @returns True if the path or one of its parent directories is ignored
+   */
+  ignores(filePath: string, isDirectory: boolean = false): boolean {
+    const absolutePath = path.resolve(filePath);
+    const relativePath = path.relative(this.root, absolutePath);
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      return false;
+    }
+
+    const parent = path.dirname(absolutePath);
+    if (parent !== this.root && this.isIgnoredDirectory(parent)) {
+      return true;
+    }
+
+    return isDirectory ? this.isIgnoredDirectory(absolutePath) : this.matches(absolutePath, false);
+  }
+
+  /**
+   * Check whether a directory is ignored, assuming its parents are not
+   * @param directory Absolute directory path
+   * @returns True if the directory or one of its parents is ignored
+   */
+  private isIgnoredDirectory(directory: string): boolean {
+    const cached = this.ignoredDirectories.get(directory);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const parent = path.dirname(directory);
+    const ignored = directory !== this.root &&
+      ((parent !== this.root && this.isIgnoredDirectory(parent)) || this.matches(directory, true));
+
+    this.ignoredDirectories.set(directory, ignored);
+    return ignored;
+  }
+
+  /**
+   * Apply every rule set in scope to a path. Later rule sets override earlier ones when they match.
+   * @param absolutePath Absolute path
+   * @param isDirectory Whether the path is a directory
+   * @returns True if the path is ignored
+   */
+  private matches(absolutePath: string, isDirectory: boolean): boolean {
+    const ruleSets = [...this.baseRules];
+
+    // Add the rules of each directory from the root down to the path's parent
+    const relativeParent = path.relative(this.root, path.dirname(absolutePath));
+    let currentDir = this.root;
+    ruleSets.push(...this.getDirectoryRules(currentDir));
+    for (const segment of relativeParent ? relativeParent.split(path.sep) : []) {
+      currentDir = path.join(currentDir, segment);
+      ruleSets.push(...this.getDirectoryRules(currentDir));
+    }
+
+    let ignored = false;
+    for (const { base, ig } of ruleSets) {
+      const relativePath = path.relative(base, absolutePath);
+      if (!relativePath || relativePath.startsWith('..')) {
+        continue;
+      }
+
+      // The ignore package expects posix separators and a trailing slash for directories
+      const posixPath = relativePath.split(path.sep).join('/');
+      const result = ig.test(isDirectory ? `${posixPath}/` : posixPath);
+      if (result.ignored) {
+        ignored = true;
+      } else if (result.unignored) {
+        ignored = false;
+      }
+    }
+
+    return ignored;
+  }
+
+  /**
+   * Get the rule sets read from the ignore files in a directory
+   * @param directory Absolute directory path
+   * @returns Rule sets scoped to the directory
+   */
+  private getDirectoryRules(directory: string): RuleSet[] {
+    let rules = this.directoryRules.get(directory);
+    if (!rules) {
+      rules = [];
+      for (const ignoreFile of IGNORE_FILES) {
+        if (ignoreFile === '.gitignore' && !this.respectGitignore) {
+          continue;
+        }
+        this.addRulesFromFile(rules, directory, path.join(directory, ignoreFile));
+      }
+      this.directoryRules.set(directory, rules);
+    }
+    return rules;
+  }
+
+  /**
+   * Read patterns from a file into a rule set, if the file exists
+   * @param rules Rule sets to add to
+   * @param base Directory the patterns are relative to
+   * @param ignoreFile Path of the file with the patterns
+   */
+  private addRulesFromFile(rules: RuleSet[], base: string, ignoreFile: string): void {
+    if (!fs.existsSync(ignoreFile)) {
+      return;
+    }
+
+    try {
+      const content = fs.readFileSync(ignoreFile, 'utf8');
+      rules.push({ base, ig: ignore().add(content) });
+    } catch (error) {
+      logError(`Error reading ignore file at ${ignoreFile}:`, error);
+    }
+  }
+}
+
+/**
+ * Find the root of the git repository containing a directory
+ * @param directory Absolute directory path
+ * @returns The repository root, or undefined if the directory is not in a repository
+ */
+function findGitRoot(directory: string): string | undefined {
+  let currentDir = directory;
+  while (true) {
+    if (fs.existsSync(path.join(currentDir, '.git'))) {
+      return currentDir;
+    }
+
+    const parent = path.dirname(currentDir);
+    if (parent === currentDir) {
+      return undefined;
+    }
+    currentDir = parent;
+  }
+}
+
+/**
+ * Find git's global excludes file: core.excludesFile from the user's git config,
+ * falling back to $XDG_CONFIG_HOME/git/ignore
+ * @returns Path of the global excludes file, or undefined if there is none
+ */
+function getGlobalExcludesFile(): string | undefined {
+  const home = os.homedir();
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(home, '.config');
+  const configFiles = [path.join(home, '.gitconfig'), path.join(configHome, 'git', 'config')];
+
+  for (const configFile of configFiles) {
+    if (!fs.existsSync(configFile)) {
+      continue;
+    }
+
+    try {
+      const excludesFile = readCoreExcludesFile(fs.readFileSync(configFile, 'utf8'));
+      if (excludesFile) {
+        return excludesFile.startsWith('~') ? path.join(home, excludesFile.slice(1)) : excludesFile;
+      }
+    } catch (error) {
+      logError(`Error reading git config at ${configFile}:`, error);
+    }
+  }
+
+  const defaultFile = path.join(configHome, 'git', 'ignore');
+  return fs.existsSync(defaultFile) ? defaultFile : undefined;
+}
+
+/**
+ * Read the core.excludesFile setting from the content of a git config file
+ * @param config Git config content
+ * @returns The configured path, or undefined if it isn't set
+ */
+function readCoreExcludesFile(config: string): string | undefined {
+  let inCoreSection = false;
+  for (const line of config.split('\n')) {
+    const trimmedLine = line.trim();
+
+    const section = trimmedLine.match(/^\[\s*([^\]\s]+)/);
+    if (section) {
+      inCoreSection = section[1].toLowerCase() === 'core';
+      continue;
+    }
+
+    const setting = trimmedLine.match(/^excludesfile\s*=\s*(.+)$/i);
+    if (inCoreSection && setting) {
+      return setting[1].trim().replace(/^"(.*)"$/, '$1');
+    }
+  }
+  return undefined;
+}
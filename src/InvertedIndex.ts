@@ -0,0 +1,362 @@
+import { FieldFrequencies, FIELDS } from './fields.js';
+import { stem } from './stemmer.js';
+import { BKTree } from './BKTree.js';
+import { wildcardToRegExp } from './query.js';
+
+/**
+ * Dictionary of every term in an index, supporting fast prefix, substring, wildcard, stem and
+ * edit-distance lookups. Substring lookups go through a trigram index over the vocabulary,
+ * so they only touch terms that share every trigram with the search string.
+ */
+export class TermDictionary {
+  private terms: Set<string> = new Set();
+  private trigrams: Map<string, Set<string>> = new Map();
+  // Map of stems to the terms that reduce to them
+  private stems: Map<string, Set<string>> = new Map();
+  private sortedTerms: string[] = [];
+  private sorted = true;
+  // Tree for edit-distance lookups, built on first use after the dictionary changed
+  private similarityTree?: BKTree;
+
+  /**
+   * Number of terms in the dictionary
+   */
+  get size(): number {
+    return this.terms.size;
+  }
+
+  /**
+   * Add a term to the dictionary
+   * @param term Term to add
+   */
+  add(term: string): void {
+    if (this.terms.has(term)) {
+      return;
+    }
+
+    this.terms.add(term);
+    for (const trigram of getTrigrams(term)) {
+      let termsWithTrigram = this.trigrams.get(trigram);
+      if (!termsWithTrigram) {
+        termsWithTrigram = new Set();
+        this.trigrams.set(trigram, termsWithTrigram);
+      }
+      termsWithTrigram.add(term);
+    }
+
+    const termStem = stem(term);
+    let termsWithStem = this.stems.get(termStem);
+    if (!termsWithStem) {
+      termsWithStem = new Set();
+      this.stems.set(termStem, termsWithStem);
+    }
+    termsWithStem.add(term);
+    this.sorted = false;
+    this.similarityTree?.add(term);
+  }
+
+  /**
+   * Remove a term from the dictionary
+   * @param term Term to remove
+   */
+  delete(term: string): void {
+    if (!this.terms.delete(term)) {
+      return;
+    }
+
+    for (const trigram of getTrigrams(term)) {
+      const termsWithTrigram = this.trigrams.get(trigram);
+      termsWithTrigram?.delete(term);
+      if (termsWithTrigram?.size === 0) {
+        this.trigrams.delete(trigram);
+      }
+    }
+
+    const termStem = stem(term);
+    const termsWithStem = this.stems.get(termStem);
+    termsWithStem?.delete(term);
+    if (termsWithStem?.size === 0) {
+      this.stems.delete(termStem);
+    }
+    this.sorted = false;
+    this.similarityTree = undefined;
+  }
+
+  /**
+   * Check whether a term is in the dictionary
+   * @param term Term to look up
+   * @returns True if the term exists
+   */
+  has(term: string): boolean {
+    return this.terms.has(term);
+  }
+
+  /**
+   * Find all terms with the same stem as a word, so `validating` finds `validate` and `validation`
+   * @param word Word to look up
+   * @returns Terms sharing the word's stem, including the word itself if it is a term
+   */
+  withStem(word: string): string[] {
+    return Array.from(this.stems.get(stem(word)) || []);
+  }
+
+  /**
+   * Find the terms within an edit distance of a word, for matching misspelled query words
+   * @param word Word to look up
+   * @param maxDistance Largest edit distance to accept
+   * @returns Matching terms and their distance to the word, closest first
+   */
+  similarTo(word: string, maxDistance: number): { term: string; distance: number }[] {
+    if (!this.similarityTree) {
+      this.similarityTree = new BKTree();
+      for (const term of this.terms) {
+        this.similarityTree.add(term);
+      }
+    }
+    return this.similarityTree.search(word, maxDistance);
+  }
+
+  /**
+   * Find all terms starting with a prefix
+   * @param prefix Prefix to look up
+   * @returns Terms starting with the prefix, in sorted order
+   */
+  withPrefix(prefix: string): string[] {
+    const sortedTerms = this.getSortedTerms();
+
+    // Binary search for the first term >= prefix
+    let low = 0;
+    let high = sortedTerms.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (sortedTerms[mid] < prefix) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    const matches: string[] = [];
+    for (let i = low; i < sortedTerms.length && sortedTerms[i].startsWith(prefix); i++) {
+      matches.push(sortedTerms[i]);
+    }
+    return matches;
+  }
+
+  /**
+   * Find all terms containing a substring
+   * @param substring Substring to look up
+   * @returns Terms containing the substring
+   */
+  containing(substring: string): string[] {
+    // Trigrams can't narrow down very short strings, so scan the vocabulary for those
+    if (substring.length < 3) {
+      return Array.from(this.terms).filter(term => term.includes(substring));
+    }
+
+    // Intersect the term sets of every trigram, starting from the smallest
+    const candidateSets: Set<string>[] = [];
+    for (const trigram of getTrigrams(substring)) {
+      const termsWithTrigram = this.trigrams.get(trigram);
+      if (!termsWithTrigram) {
+        return [];
+      }
+      candidateSets.push(termsWithTrigram);
+    }
+    candidateSets.sort((a, b) => a.size - b.size);
+
+    const matches: string[] = [];
+    for (const term of candidateSets[0]) {
+      if (candidateSets.every(set => set.has(term)) && term.includes(substring)) {
+        matches.push(term);
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Find all terms matching a pattern with * wildcards, like `get*user`
+   * @param pattern Lowercase pattern
+   * @returns Matching terms
+   */
+  matching(pattern: string): string[] {
+    const regex = wildcardToRegExp(pattern, true);
+
+    // Narrow the candidates down by the text before the first wildcard, or else by the longest literal part
+    const wildcardIndex = pattern.indexOf('*');
+    const prefix = wildcardIndex === -1 ? pattern : pattern.slice(0, wildcardIndex);
+    const longestPart = pattern.split('*').reduce((longest, part) => part.length > longest.length ? part : longest, '');
+    const candidates = prefix ? this.withPrefix(prefix) : this.containing(longestPart);
+    return candidates.filter(term => regex.test(term));
+  }
+
+  /**
+   * Get the vocabulary in sorted order, re-sorting only after the dictionary changed
+   * @returns Sorted terms
+   */
+  private getSortedTerms(): string[] {
+    if (!this.sorted) {
+      this.sortedTerms = Array.from(this.terms).sort();
+      this.sorted = true;
+    }
+    return this.sortedTerms;
+  }
+}
+
+/**
+ * Global term → postings index for the documents of one directory. Documents are chunks of files,
+ * and terms are counted separately in each field. Besides the postings it keeps the corpus
+ * statistics that BM25F scoring needs, and where each term occurs in each document for
+ * phrase and proximity matching.
+ */
+export class InvertedIndex {
+  // Map of terms to the documents containing them and the term's frequency in each field of each document
+  private postings: Map<string, Map<string, FieldFrequencies>> = new Map();
+  // Terms of each document, needed to remove the document again
+  private documentTerms: Map<string, string[]> = new Map();
+  // Number of terms in each field of each document
+  private documentLengths: Map<string, number[]> = new Map();
+  // Word positions of each term in each document, and the position at which each line of the document starts
+  private documentPositions: Map<string, Map<string, number[]>> = new Map();
+  private linePositions: Map<string, number[]> = new Map();
+  private totalLengths: number[] = new Array(FIELDS.length).fill(0);
+  readonly dictionary: TermDictionary = new TermDictionary();
+
+  /**
+   * Number of documents in the index
+   */
+  get documentCount(): number {
+    return this.documentTerms.size;
+  }
+
+  /**
+   * Average length of each field across the documents in the index
+   */
+  get averageFieldLengths(): number[] {
+    return this.totalLengths.map(total => this.documentCount > 0 ? total / this.documentCount : 0);
+  }
+
+  /**
+   * Add a document to the index, replacing any previous entry for it
+   * @param document Document id
+   * @param keywords Map of keywords to their frequency in each field of the document
+   * @param positions Map of keywords to their word positions in the document
+   * @param linePositions Position of the first word on or after each line of the document
+   */
+  addDocument(
+    document: string,
+    keywords: Map<string, FieldFrequencies>,
+    positions: Map<string, number[]> = new Map(),
+    linePositions: number[] = []
+  ): void {
+    this.removeDocument(document);
+
+    const lengths = new Array(FIELDS.length).fill(0);
+    for (const [term, frequencies] of keywords) {
+      let termPostings = this.postings.get(term);
+      if (!termPostings) {
+        termPostings = new Map();
+        this.postings.set(term, termPostings);
+        this.dictionary.add(term);
+      }
+      termPostings.set(document, frequencies);
+      frequencies.forEach((frequency, field) => lengths[field] += frequency);
+    }
+
+    this.documentTerms.set(document, Array.from(keywords.keys()));
+    this.documentLengths.set(document, lengths);
+    this.documentPositions.set(document, positions);
+    this.linePositions.set(document, linePositions);
+    lengths.forEach((length, field) => this.totalLengths[field] += length);
+  }
+
+  /**
+   * Remove a document from the index
+   * @param document Document id
+   */
+  removeDocument(document: string): void {
+    const terms = this.documentTerms.get(document);
+    if (!terms) {
+      return;
+    }
+
+    for (const term of terms) {
+      const termPostings = this.postings.get(term);
+      termPostings?.delete(document);
+      if (termPostings?.size === 0) {
+        this.postings.delete(term);
+        this.dictionary.delete(term);
+      }
+    }
+
+    this.documentLengths.get(document)?.forEach((length, field) => this.totalLengths[field] -= length);
+    this.documentTerms.delete(document);
+    this.documentLengths.delete(document);
+    this.documentPositions.delete(document);
+    this.linePositions.delete(document);
+  }
+
+  /**
+   * Get the postings of a term
+   * @param term Term to look up
+   * @returns Map of documents containing the term to the term's frequency in each of their fields
+   */
+  getPostings(term: string): Map<string, FieldFrequencies> {
+    return this.postings.get(term) || new Map();
+  }
+
+  /**
+   * Get the positions at which a term occurs in a document
+   * @param document Document id
+   * @param term Term to look up
+   * @returns Word positions in ascending order, empty if the term doesn't occur
+   */
+  getPositions(document: string, term: string): number[] {
+    return this.documentPositions.get(document)?.get(term) || [];
+  }
+
+  /**
+   * Get the line of a document that a word position is on
+   * @param document Document id
+   * @param position Word position
+   * @returns 0-based line within the document
+   */
+  getLine(document: string, position: number): number {
+    const linePositions = this.linePositions.get(document) || [];
+
+    // Binary search for the last line starting at or before the position
+    let low = 0;
+    let high = linePositions.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (linePositions[mid] <= position) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return Math.max(0, low - 1);
+  }
+
+  /**
+   * Get the length of each field of a document
+   * @param document Document id
+   * @returns Number of terms in each field, all 0 if the document isn't indexed
+   */
+  getFieldLengths(document: string): number[] {
+    return this.documentLengths.get(document) || new Array(FIELDS.length).fill(0);
+  }
+}
+
+/**
+ * Split a string into its overlapping three-character sequences
+ * @param text Text to split
+ * @returns Unique trigrams of the text
+ */
+function getTrigrams(text: string): Set<string> {
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= text.length; i++) {
+    trigrams.add(text.slice(i, i + 3));
+  }
+  return trigrams;
+}
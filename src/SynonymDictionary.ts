@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import { stem } from './stemmer.js';
+import { logError } from './logger.js';
+
+/**
+ * Name of the file in an indexed directory that adds project-specific synonym groups.
+ * Each line holds one group of words separated by commas or spaces; lines starting with # are comments.
+ */
+export const SYNONYMS_FILE = '.ferretsynonyms';
+
+/**
+ * Groups of words and abbreviations that mean the same thing in code
+ */
+export const DEFAULT_SYNONYMS: string[][] = [
+  ['auth', 'authentication'],
+  ['db', 'database'],
+  ['cfg', 'conf', 'config', 'configuration'],
+  ['msg', 'message'],
+  ['err', 'error'],
+  ['env', 'environment'],
+  ['repo', 'repository'],
+  ['req', 'request'],
+  ['resp', 'response'],
+  ['init', 'initialize'],
+  ['impl', 'implementation'],
+  ['util', 'utility'],
+  ['dir', 'directory'],
+  ['pwd', 'passwd', 'password'],
+  ['img', 'image'],
+  ['btn', 'button'],
+  ['tmp', 'temp', 'temporary'],
+  ['max', 'maximum'],
+  ['min', 'minimum']
+];
+
+/**
+ * Expands query words to their synonyms and abbreviations. The default groups can be extended
+ * with groups passed in code and with a .ferretsynonyms file in the searched directory.
+ * Words that belong to several groups expand to the words of all of them.
+ */
+export class SynonymDictionary {
+  // Map of words, and of their stems, to every word they are synonymous with
+  private synonyms: Map<string, Set<string>> = new Map();
+
+  /**
+   * Build the dictionary for a directory
+   * @param directory Directory whose .ferretsynonyms file is read, if any
+   * @param extraGroups Additional synonym groups
+   */
+  constructor(directory?: string, extraGroups: string[][] = []) {
+    for (const group of [...DEFAULT_SYNONYMS, ...extraGroups]) {
+      this.addGroup(group);
+    }
+
+    const synonymsFile = directory ? path.join(directory, SYNONYMS_FILE) : undefined;
+    if (synonymsFile && fs.existsSync(synonymsFile)) {
+      try {
+        for (const line of fs.readFileSync(synonymsFile, 'utf8').split('\n')) {
+          const trimmedLine = line.trim();
+          if (trimmedLine && !trimmedLine.startsWith('#')) {
+            this.addGroup(trimmedLine.split(/[\s,]+/));
+          }
+        }
+      } catch (error) {
+        logError(`Error reading synonyms file at ${synonymsFile}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Get a word together with its synonyms
+   * @param word Lowercase word
+   * @returns The word followed by its synonyms
+   */
+  expand(word: string): string[] {
+    const synonyms = this.synonyms.get(word) || this.synonyms.get(stem(word));
+    return Array.from(new Set([word, ...(synonyms || [])]));
+  }
+
+  /**
+   * Make every word of a group a synonym of the others
+   * @param group Words of the group
+   */
+  private addGroup(group: string[]): void {
+    const words = group.map(word => word.toLowerCase()).filter(word => word);
+    for (const key of new Set([...words, ...words.map(stem)])) {
+      const synonyms = this.synonyms.get(key) || new Set<string>();
+      words.forEach(word => synonyms.add(word));
+      this.synonyms.set(key, synonyms);
+    }
+  }
+}
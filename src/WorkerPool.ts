@@ -0,0 +1,136 @@
+import { Worker } from 'worker_threads';
+
+interface PendingTask<TResult> {
+  resolve: (result: TResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface QueuedTask<TTask, TResult> extends PendingTask<TResult> {
+  task: TTask;
+}
+
+/**
+ * Message sent from a pool worker back to the pool
+ */
+export interface WorkerResponse<TResult> {
+  result?: TResult;
+  error?: string;
+}
+
+/**
+ * Fixed-size pool of worker threads that run tasks one at a time per worker.
+ * Workers must answer every message they receive with a single WorkerResponse.
+ */
+export class WorkerPool<TTask, TResult> {
+  private workers: Worker[] = [];
+  private idleWorkers: Worker[] = [];
+  private pending: Map<Worker, PendingTask<TResult>> = new Map();
+  private queue: QueuedTask<TTask, TResult>[] = [];
+
+  /**
+   * Start the worker threads
+   * @param workerScript URL of the worker script
+   * @param size Number of worker threads
+   * @throws RangeError if the size isn't a whole number of at least 1
+   */
+  constructor(workerScript: URL, size: number) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new RangeError(`Invalid worker pool size ${size}. Expected a whole number of at least 1`);
+    }
+
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(workerScript);
+
+      worker.on('message', (response: WorkerResponse<TResult>) => {
+        const task = this.pending.get(worker);
+        this.pending.delete(worker);
+
+        if (response.error !== undefined) {
+          task?.reject(new Error(response.error));
+        } else {
+          task?.resolve(response.result as TResult);
+        }
+        this.release(worker);
+      });
+
+      // A crashed worker fails its current task; the remaining workers pick up the queue
+      worker.on('error', (error) => this.remove(worker, error));
+      worker.on('exit', (code) => this.remove(worker, new Error(`Worker exited with code ${code}`)));
+
+      this.workers.push(worker);
+      this.idleWorkers.push(worker);
+    }
+  }
+
+  /**
+   * Run a task on the next free worker
+   * @param task Task to send to the worker
+   * @returns The worker's result
+   */
+  run(task: TTask): Promise<TResult> {
+    return new Promise((resolve, reject) => {
+      if (this.workers.length === 0) {
+        reject(new Error('All workers have exited'));
+        return;
+      }
+      const worker = this.idleWorkers.pop();
+      if (worker) {
+        this.dispatch(worker, { task, resolve, reject });
+      } else {
+        this.queue.push({ task, resolve, reject });
+      }
+    });
+  }
+
+  /**
+   * Stop all worker threads
+   */
+  async close(): Promise<void> {
+    await Promise.all(this.workers.map(worker => worker.terminate()));
+    this.workers = [];
+    this.idleWorkers = [];
+  }
+
+  /**
+   * Send a task to a worker
+   * @param worker Idle worker
+   * @param queued Task with its callbacks
+   */
+  private dispatch(worker: Worker, queued: QueuedTask<TTask, TResult>): void {
+    this.pending.set(worker, { resolve: queued.resolve, reject: queued.reject });
+    worker.postMessage(queued.task);
+  }
+
+  /**
+   * Drop a worker that crashed or exited, failing its current task. Once no workers are left,
+   * queued tasks fail too, since nothing would ever run them
+   * @param worker Worker that stopped
+   * @param error Why it stopped
+   */
+  private remove(worker: Worker, error: Error): void {
+    const task = this.pending.get(worker);
+    this.pending.delete(worker);
+    this.workers = this.workers.filter(w => w !== worker);
+    this.idleWorkers = this.idleWorkers.filter(w => w !== worker);
+    task?.reject(error);
+
+    if (this.workers.length === 0) {
+      for (const queued of this.queue.splice(0)) {
+        queued.reject(new Error('All workers have exited'));
+      }
+    }
+  }
+
+  /**
+   * Hand a worker that finished its task the next queued task, or mark it idle
+   * @param worker Worker that finished
+   */
+  private release(worker: Worker): void {
+    const next = this.queue.shift();
+    if (next) {
+      this.dispatch(worker, next);
+    } else {
+      this.idleWorkers.push(worker);
+    }
+  }
+}
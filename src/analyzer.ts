@@ -0,0 +1,383 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { chunkCode, ChunkKind, ChunkRange } from './chunker.js';
+import { Declaration, DeclarationKind, extractDeclarations, isScriptFile } from './symbols.js';
+import { Field, FieldFrequencies, FIELDS, getFieldIndex, separateText } from './fields.js';
+import { tokenizeWithPositions, tokenizeWithSubWords } from './tokenizer.js';
+import { extractTrigrams } from './trigrams.js';
+import { getCommonStopwords, getStopwords } from './languages.js';
+
+// Default limit above which files are not indexed
+export const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+// How much of a file is inspected for NUL bytes
+const SNIFF_BYTES = 8000;
+
+// How many lines at the top of a file are searched for generated-code markers
+const GENERATED_HEADER_LINES = 10;
+
+// Lines this long on average, or any single line this long, indicate minified code
+const MINIFIED_AVERAGE_LINE_LENGTH = 250;
+const MINIFIED_MAX_LINE_LENGTH = 5000;
+
+// Kinds of chunk that declarations found by the compiler make. Namespaces, properties and variables
+// don't make chunks of their own
+const CHUNK_DECLARATION_KINDS: Partial<Record<DeclarationKind, ChunkKind>> = {
+  class: 'class',
+  interface: 'interface',
+  enum: 'enum',
+  type: 'type',
+  function: 'function',
+  method: 'method'
+};
+
+/**
+ * Text encodings recognized when reading source files
+ */
+export type FileEncoding = 'utf-8' | 'utf-8-bom' | 'utf-16le' | 'utf-16be' | 'latin1';
+
+/**
+ * Reasons a file is left out of the index
+ */
+export type SkipReason = 'too-large' | 'binary' | 'generated' | 'minified';
+
+/**
+ * Options controlling which files are analyzed
+ */
+export interface AnalyzeOptions {
+  maxFileSize?: number; // Files larger than this many bytes are skipped (default: 1 MB)
+  skipGenerated?: boolean; // Skip generated and minified files (default: true)
+  root?: string; // Indexed directory. The path field holds the file's path relative to it
+}
+
+/**
+ * A chunk of a file together with the keywords extracted from it
+ */
+export interface CodeChunk extends ChunkRange {
+  keywords: Map<string, FieldFrequencies>; // Occurrences of each keyword in each field
+  positions: Map<string, number[]>; // Word positions of each keyword in the chunk, in order
+  linePositions: number[]; // Position of the first word on or after each line of the chunk
+}
+
+/**
+ * Result of reading and analyzing a source file
+ */
+export interface FileAnalysis {
+  code: string;
+  checksum: string;
+  encoding: FileEncoding;
+  size: number; // Size in bytes when the file was read
+  mtimeMs: number; // Modification time when the file was read
+  chunks?: CodeChunk[]; // Omitted when the checksum matched the known checksum
+  lineOffsets?: number[]; // Byte offset of the start of each line, omitted like chunks
+  trigrams?: Uint32Array; // Character trigrams of the content, omitted like chunks
+}
+
+/**
+ * A file that was not analyzed, and why
+ */
+export interface SkippedFile {
+  skipped: SkipReason;
+}
+
+/**
+ * Read a file, split it into chunks and extract the keywords of each. This runs both on the main thread and in the
+ * indexing workers, so it must only depend on its arguments.
+ * @param file File path
+ * @param knownChecksum Checksum of the file in the existing index, if any
+ * @param options Analyze options
+ * @returns The file's content and checksum, plus its chunks and trigrams if the content changed,
+ * or the reason the file was skipped
+ */
+export function analyzeFile(
+  file: string,
+  knownChecksum?: string,
+  options: AnalyzeOptions = {}
+): FileAnalysis | SkippedFile {
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const skipGenerated = options.skipGenerated !== false;
+  
+  const { size, mtimeMs } = fs.statSync(file);
+  if (size > maxFileSize) {
+    return { skipped: 'too-large' };
+  }
+  
+  const buffer = fs.readFileSync(file);
+  const decoded = decodeContent(buffer);
+  if (!decoded) {
+    return { skipped: 'binary' };
+  }
+  
+  const { code, encoding } = decoded;
+  const checksum = calculateChecksum(code);
+  
+  // Unchanged files keep their previously extracted chunks
+  if (knownChecksum === checksum) {
+    return { code, checksum, encoding, size, mtimeMs };
+  }
+  
+  if (skipGenerated) {
+    if (hasGeneratedHeader(code)) {
+      return { skipped: 'generated' };
+    }
+    if (isMinified(file, code)) {
+      return { skipped: 'minified' };
+    }
+  }
+  
+  return {
+    code,
+    checksum,
+    encoding,
+    size,
+    mtimeMs,
+    chunks: extractChunks(code, file, options.root),
+    // Byte offsets only map to lines for encodings where a newline is the single byte 0x0a
+    lineOffsets: encoding === 'utf-8' || encoding === 'utf-8-bom' ? getLineOffsets(buffer) : [],
+    trigrams: extractTrigrams(code)
+  };
+}
+
+/**
+ * Detect the encoding of file content and decode it. Byte order marks are honored;
+ * otherwise content that isn't valid UTF-8 is read as Latin-1.
+ * @param buffer Raw file content
+ * @returns The decoded text and its encoding, or undefined if the content is binary
+ */
+export function decodeContent(buffer: Buffer): { code: string; encoding: FileEncoding } | undefined {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { code: buffer.subarray(3).toString('utf-8'), encoding: 'utf-8-bom' };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { code: new TextDecoder('utf-16le').decode(buffer.subarray(2)), encoding: 'utf-16le' };
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { code: new TextDecoder('utf-16be').decode(buffer.subarray(2)), encoding: 'utf-16be' };
+  }
+  
+  // Text never contains NUL bytes, so one near the start means a binary file
+  if (buffer.subarray(0, SNIFF_BYTES).includes(0)) {
+    return undefined;
+  }
+  
+  try {
+    return { code: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+  } catch (error) {
+    return { code: buffer.toString('latin1'), encoding: 'latin1' };
+  }
+}
+
+/**
+ * Check for a marker at the top of a file saying it was generated by a tool
+ * @param code File content
+ * @returns True if the file declares itself generated
+ */
+function hasGeneratedHeader(code: string): boolean {
+  const header = code.split('\n', GENERATED_HEADER_LINES).join('\n');
+  return /@generated\b/.test(header) || /Code generated .* DO NOT EDIT/.test(header);
+}
+
+/**
+ * Check whether a file looks minified, by name or by its line lengths
+ * @param file File path
+ * @param code File content
+ * @returns True if the file looks minified
+ */
+function isMinified(file: string, code: string): boolean {
+  if (/\.min\.[a-z]+$/i.test(path.basename(file))) {
+    return true;
+  }
+  
+  const lines = code.split('\n');
+  const averageLength = code.length / lines.length;
+  return averageLength > MINIFIED_AVERAGE_LINE_LENGTH ||
+    lines.some(line => line.length > MINIFIED_MAX_LINE_LENGTH);
+}
+
+/**
+ * Find the byte offset at which each line of a file starts
+ * @param buffer File content
+ * @returns Byte offsets of line starts, beginning with 0 for the first line
+ */
+export function getLineOffsets(buffer: Buffer): number[] {
+  const offsets = [0];
+  let index = buffer.indexOf(0x0a);
+  while (index !== -1) {
+    offsets.push(index + 1);
+    index = buffer.indexOf(0x0a, index + 1);
+  }
+  return offsets;
+}
+
+/**
+ * Calculate file checksum to detect changes
+ * @param content File content
+ * @returns MD5 checksum
+ */
+export function calculateChecksum(content: string): string {
+  return crypto.createHash('md5').update(content).digest('hex');
+}
+
+/**
+ * Split code into chunks and extract the keywords of each chunk
+ * @param code Source code content
+ * @param file File path, used to pick the language's chunking rules
+ * @param root Indexed directory, if known. The file's path relative to it is indexed with each chunk
+ * @returns Chunks in file order
+ */
+export function extractChunks(code: string, file: string, root?: string): CodeChunk[] {
+  const lines = code.split('\n');
+  const relativePath = root ? path.relative(root, file) : path.basename(file);
+  // TypeScript and JavaScript declarations come from the compiler; other languages fall back to patterns
+  const declarations = isScriptFile(file) ? extractDeclarations(code, file) : undefined;
+
+  return chunkCode(code, file).map(chunk => {
+    const chunkText = lines.slice(chunk.startLine - 1, chunk.endLine).join('\n');
+    return {
+      ...(declarations ? classifyChunk(chunk, declarations, lines) : chunk),
+      keywords: extractKeywords(
+        chunkText,
+        file,
+        relativePath,
+        declarations?.filter(declaration =>
+          declaration.startLine >= chunk.startLine && declaration.startLine <= chunk.endLine)
+      ),
+      ...extractPositions(chunkText, file)
+    };
+  });
+}
+
+/**
+ * Classify a chunk of a TypeScript or JavaScript file by the declaration the compiler found in it,
+ * in place of the chunker's guess from the code's patterns
+ * @param chunk Chunk as found by the chunker
+ * @param declarations Declarations of the file
+ * @param lines Lines of the file
+ * @returns The chunk with the kind, name and export of the declaration it holds. Parts of a
+ * declaration too large for one chunk keep the chunker's kind and name, and other chunks are blocks
+ */
+function classifyChunk(chunk: ChunkRange, declarations: Declaration[], lines: string[]): ChunkRange {
+  const { startLine, endLine } = chunk;
+  const chunked = declarations.filter(declaration => CHUNK_DECLARATION_KINDS[declaration.kind] !== undefined);
+
+  // The chunk holds a declaration if it ends with it and only comments and decorators come before it
+  const declaration = chunked.find(candidate =>
+    candidate.startLine >= startLine && candidate.endLine === endLine &&
+    lines.slice(startLine - 1, candidate.startLine - 1).every(line => /^\s*(?:\/\/|\/\*|\*|@|$)/.test(line)));
+  if (declaration) {
+    const kind = CHUNK_DECLARATION_KINDS[declaration.kind]!;
+    return {
+      startLine,
+      endLine,
+      kind,
+      name: declaration.name,
+      ...(kind === 'method' ? { container: declaration.container } : {}),
+      exported: declaration.exported
+    };
+  }
+
+  // Parts of a declaration are exported with it. The innermost declaration holding them comes last
+  const enclosing = chunked.filter(candidate => candidate.startLine <= startLine && candidate.endLine >= endLine);
+  if (enclosing.length > 0) {
+    return { ...chunk, exported: enclosing[enclosing.length - 1].exported };
+  }
+  return { startLine, endLine, kind: 'block' };
+}
+
+/**
+ * Extract keywords from code content, counting their occurrences in each field separately
+ * @param code Source code content
+ * @param file File path, used to pick the language's comment syntax and stopwords
+ * @param relativePath Path indexed in the path field
+ * @param declarations Declarations in the code, if known. Without them, class and function
+ * names are guessed from the code
+ * @returns Map of keywords to their frequency in each field
+ */
+export function extractKeywords(
+  code: string,
+  file: string,
+  relativePath: string,
+  declarations?: Declaration[]
+): Map<string, FieldFrequencies> {
+  const keywords = new Map<string, FieldFrequencies>();
+  const stopwords = getStopwords(file);
+
+  // Split into identifiers and their sub-words and count frequency
+  const addText = (field: Field, text: string) => {
+    const fieldIndex = getFieldIndex(field);
+    for (const { term: word, subWord } of tokenizeWithSubWords(text)) {
+      if (!isIndexedWord(word, stopwords, subWord)) {
+        continue;
+      }
+
+      let frequencies = keywords.get(word);
+      if (!frequencies) {
+        frequencies = new Array(FIELDS.length).fill(0);
+        keywords.set(word, frequencies);
+      }
+      frequencies[fieldIndex]++;
+    }
+  };
+
+  const { comments, strings, body } = separateText(code, file);
+  addText('path', relativePath);
+  addText('comments', comments);
+  addText('strings', strings);
+  addText('body', body);
+
+  if (declarations) {
+    addText('symbols', declarations.map(declaration => declaration.name).join(' '));
+    return keywords;
+  }
+
+  // Guess class and function names from the code outside comments and strings
+  const classNames = Array.from(body.matchAll(/class\s+(\w+)/g), match => match[1]);
+  const functionNames = Array.from(body.matchAll(/function\s+(\w+)|(\w+)\s*\(/g), match => match[1] || match[2]);
+  addText('symbols', [...classNames, ...functionNames].join(' '));
+
+  return keywords;
+}
+
+/**
+ * Record where each keyword occurs in code, for phrase and proximity matching. Positions count
+ * words in the order they appear, including words that aren't indexed, so gaps are preserved
+ * @param code Source code content
+ * @param file File path, used to pick the language's stopwords
+ * @returns Positions of each keyword, and the position at which each line starts
+ */
+export function extractPositions(code: string, file: string): { positions: Map<string, number[]>; linePositions: number[] } {
+  const positions = new Map<string, number[]>();
+  const linePositions: number[] = [];
+  const stopwords = getStopwords(file);
+
+  for (const { term, subWord, position, line } of tokenizeWithPositions(code)) {
+    while (linePositions.length <= line) {
+      linePositions.push(position);
+    }
+    if (!isIndexedWord(term, stopwords, subWord)) {
+      continue;
+    }
+
+    const termPositions = positions.get(term);
+    if (!termPositions) {
+      positions.set(term, [position]);
+    } else if (termPositions[termPositions.length - 1] !== position) {
+      termPositions.push(position);
+    }
+  }
+
+  return { positions, linePositions };
+}
+
+/**
+ * Check whether a word is indexed. Short words and stopwords are not. The reserved words of the
+ * file's language are only left out as whole identifiers, so delete in deleteUser is indexed
+ * @param word Lowercase word
+ * @param stopwords Stopwords of the file's language, from getStopwords
+ * @param subWord Whether the word is a sub-word of a longer identifier
+ * @returns True if the word is indexed
+ */
+export function isIndexedWord(word: string, stopwords: Set<string>, subWord = false): boolean {
+  return word.length > 2 && !(subWord ? getCommonStopwords() : stopwords).has(word);
+}
@@ -0,0 +1,128 @@
+import { InvertedIndex } from './InvertedIndex.js';
+import { Field, FieldFrequencies, FIELDS, FieldWeights } from './fields.js';
+
+/**
+ * Tuning parameters of BM25F scoring
+ */
+export interface BM25Parameters {
+  k1: number; // How quickly repeated occurrences of a term stop adding to the score
+  b: number; // How much long fields are penalized, from 0 (not at all) to 1 (fully)
+  fieldWeights: FieldWeights; // How much an occurrence in each field counts
+}
+
+export const DEFAULT_BM25_PARAMETERS: Omit<BM25Parameters, 'fieldWeights'> = { k1: 1.2, b: 0.75 };
+
+/**
+ * Inverse document frequency of a term. Rare terms score higher than common ones,
+ * and the value never drops below zero even for terms in every document.
+ * @param documentFrequency Number of documents containing the term
+ * @param documentCount Number of documents in the corpus
+ * @returns IDF weight
+ */
+export function inverseDocumentFrequency(documentFrequency: number, documentCount: number): number {
+  return Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+/**
+ * Score every document containing any of a set of terms with BM25F. The terms are treated as one:
+ * their frequencies are added up and a document counts once towards the document frequency, which
+ * is how words with the same stem and synonyms match as if they were the query word itself.
+ *
+ * The frequency in each field is normalized by the field's length, weighted, and summed before
+ * saturation, so matches in several fields reinforce each other without any field dominating.
+ * @param index Inverted index holding the documents and corpus statistics
+ * @param terms Indexed terms
+ * @param parameters BM25F parameters
+ * @returns Map of documents containing the terms to their score for them
+ */
+export function scoreTerms(index: InvertedIndex, terms: string[], parameters: BM25Parameters): Map<string, number> {
+  const scores = new Map<string, number>();
+
+  // Combine the postings of the terms
+  const postings = new Map<string, number[]>();
+  for (const term of terms) {
+    for (const [document, frequencies] of index.getPostings(term)) {
+      const combined = postings.get(document);
+      postings.set(document, combined ? combined.map((frequency, field) => frequency + frequencies[field]) : frequencies);
+    }
+  }
+  if (postings.size === 0) {
+    return scores;
+  }
+
+  const { k1 } = parameters;
+  const idf = inverseDocumentFrequency(postings.size, index.documentCount);
+  const averageLengths = index.averageFieldLengths;
+
+  for (const [document, frequencies] of postings) {
+    const lengths = index.getFieldLengths(document);
+    const weightedFrequency = weightFrequencies(frequencies, lengths, averageLengths, parameters)
+      .reduce((sum, frequency) => sum + frequency, 0);
+    // Documents that only match in fields weighted 0 score nothing, even when k1 is 0 too
+    const score = weightedFrequency > 0 ? idf * weightedFrequency * (k1 + 1) / (weightedFrequency + k1) : 0;
+    scores.set(document, score);
+  }
+
+  return scores;
+}
+
+/**
+ * Break a document's score for a set of terms down by field. Each field gets the share of the
+ * score that its weighted frequency makes up of the total, so the shares add up to the score
+ * @param index Inverted index holding the document
+ * @param terms Indexed terms, treated as one like in scoreTerms
+ * @param document Document id
+ * @param score The document's score for the terms
+ * @param parameters BM25F parameters
+ * @returns Share of the score from each field the terms occur in
+ */
+export function explainFields(
+  index: InvertedIndex,
+  terms: string[],
+  document: string,
+  score: number,
+  parameters: BM25Parameters
+): Partial<Record<Field, number>> {
+  const frequencies: FieldFrequencies = new Array(FIELDS.length).fill(0);
+  for (const term of terms) {
+    index.getPostings(term).get(document)?.forEach((frequency, field) => frequencies[field] += frequency);
+  }
+
+  const weighted = weightFrequencies(frequencies, index.getFieldLengths(document), index.averageFieldLengths, parameters);
+  const total = weighted.reduce((sum, frequency) => sum + frequency, 0);
+  const shares: Partial<Record<Field, number>> = {};
+  if (total === 0) {
+    return shares;
+  }
+  weighted.forEach((frequency, field) => {
+    if (frequency > 0) {
+      shares[FIELDS[field]] = score * frequency / total;
+    }
+  });
+  return shares;
+}
+
+/**
+ * Weight a document's term frequencies by field, normalizing each by the field's length
+ * @param frequencies Occurrences of the terms in each field of the document
+ * @param lengths Length of each field of the document
+ * @param averageLengths Average length of each field across the corpus
+ * @param parameters BM25F parameters
+ * @returns Weighted frequency in each field, in the order of FIELDS
+ */
+function weightFrequencies(
+  frequencies: FieldFrequencies,
+  lengths: number[],
+  averageLengths: number[],
+  parameters: BM25Parameters
+): number[] {
+  const { b, fieldWeights } = parameters;
+
+  return frequencies.map((frequency, field) => {
+    if (frequency === 0) {
+      return 0;
+    }
+    const lengthRatio = averageLengths[field] > 0 ? lengths[field] / averageLengths[field] : 1;
+    return fieldWeights[FIELDS[field]] * frequency / (1 - b + b * lengthRatio);
+  });
+}
@@ -0,0 +1,580 @@
+import path from 'path';
+
+/**
+ * Kinds of code chunk a file is split into
+ */
+export const CHUNK_KINDS = ['class', 'interface', 'enum', 'type', 'function', 'method', 'block'] as const;
+
+export type ChunkKind = typeof CHUNK_KINDS[number];
+
+/**
+ * A range of lines forming one logical unit of code
+ */
+export interface ChunkRange {
+  startLine: number; // 1-based, inclusive
+  endLine: number; // 1-based, inclusive
+  kind: ChunkKind;
+  name?: string; // Name of the declared symbol, if the chunk is a declaration
+  container?: string; // Name of the enclosing class, for methods
+  exported?: boolean; // Whether the module exports the declaration, where the compiler can tell
+}
+
+// Declarations longer than this are split into their members, or into windows if they have none
+export const MAX_CHUNK_LINES = 150;
+
+// Runs of top-level code that isn't a declaration are grouped into blocks of at most this many lines
+const MAX_BLOCK_LINES = 60;
+
+// Words that can precede `name(` without it being a function declaration
+const CONTROL_KEYWORDS = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'return', 'new', 'else', 'do', 'try', 'typeof',
+  'await', 'throw', 'super', 'this', 'function', 'sizeof', 'using', 'lock', 'foreach', 'yield'
+]);
+
+// Modifiers that may precede a class-like declaration
+const CLASS_PATTERN = /^(?:(?:export|default|declare|abstract|public|private|protected|internal|static|sealed|final|partial|data|open|readonly)\s+)*(class|interface|enum|struct|record)\s+([A-Za-z_$][\w$]*)/;
+const NAMESPACE_PATTERN = /^(?:export\s+)?(?:declare\s+)?(?:namespace|module)\s+[\w$.]+\s*\{/;
+const FUNCTION_PATTERN = /^(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([\w$]+)/;
+const ARROW_FUNCTION_PATTERN = /^(?:export\s+)?(?:const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*(?:async\s*)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[\w$]+\s*=>)/;
+const TYPE_ALIAS_PATTERN = /^(?:export\s+)?(?:declare\s+)?type\s+([\w$]+)/;
+const C_FUNCTION_PATTERN = /^(?:[\w$<>\[\],.*&:?@]+\s+)*?([\w$~#]+(?:::[\w$~]+)*)\s*(?:<[^<>]*>)?\s*\(/;
+const PYTHON_DEF_PATTERN = /^(?:async\s+)?def\s+(\w+)/;
+const PYTHON_CLASS_PATTERN = /^class\s+(\w+)/;
+
+/**
+ * What the scanner knows about a line once strings and comments are set aside
+ */
+interface LineInfo {
+  code: string; // The line with comments removed and string contents blanked out
+  blank: boolean;
+  commentOnly: boolean;
+  depthStart: number; // Brace depth at the start of the line
+  depthEnd: number; // Brace depth at the end of the line
+  parenEnd: number; // Parenthesis and bracket depth at the end of the line
+  indent: number; // Leading whitespace width
+}
+
+/**
+ * A statement or declaration spanning one or more lines. Leading comments belong to it
+ */
+interface Unit {
+  start: number; // 0-based line index, including leading comments and decorators
+  codeStart: number; // 0-based index of the first line of code
+  end: number; // 0-based, inclusive
+}
+
+/**
+ * Split a file into logical chunks: classes, functions, methods and other declarations,
+ * plus blocks for the code between them. Large declarations are split further.
+ * @param code File content
+ * @param file File path, used to pick the language rules
+ * @returns Chunks in file order, covering every non-blank line
+ */
+export function chunkCode(code: string, file: string): ChunkRange[] {
+  const rawLines = code.split('\n');
+  const isPython = path.extname(file).toLowerCase() === '.py';
+  const lines = scanLines(rawLines, isPython);
+
+  const chunks = isPython ?
+    chunkPython(lines, 0, lines.length - 1, 0) :
+    chunkBraces(lines, 0, lines.length - 1, 0);
+
+  return chunks.map(chunk => ({ ...chunk, startLine: chunk.startLine + 1, endLine: chunk.endLine + 1 }));
+}
+
+/**
+ * Scan lines for strings, comments, brace depth and bracket depth
+ * @param rawLines Lines of the file
+ * @param isPython Whether to use Python comment and string rules
+ * @returns Information about each line
+ */
+function scanLines(rawLines: string[], isPython: boolean): LineInfo[] {
+  const infos: LineInfo[] = [];
+  let depth = 0;
+  let parens = 0;
+  let inBlockComment = false;
+  let stringQuote: string | null = null; // Open string that continues onto the next line
+
+  for (const raw of rawLines) {
+    const depthStart = depth;
+    let code = '';
+
+    for (let i = 0; i < raw.length; i++) {
+      const char = raw[i];
+      const next = raw[i + 1];
+
+      if (inBlockComment) {
+        if (char === '*' && next === '/') {
+          inBlockComment = false;
+          i++;
+        }
+        continue;
+      }
+
+      if (stringQuote) {
+        if (char === '\\') {
+          i++;
+        } else if (raw.startsWith(stringQuote, i)) {
+          code += stringQuote;
+          i += stringQuote.length - 1;
+          stringQuote = null;
+        } else {
+          code += ' ';
+        }
+        continue;
+      }
+
+      if (isPython && char === '#') {
+        break;
+      }
+      if (!isPython && char === '/' && next === '/') {
+        break;
+      }
+      if (!isPython && char === '/' && next === '*') {
+        inBlockComment = true;
+        i++;
+        continue;
+      }
+
+      // Regular expression literals can contain unbalanced brackets and quotes
+      if (!isPython && char === '/' && /(^|[(,=:[!&|?{};]|\breturn)\s*$/.test(code)) {
+        const end = findRegexEnd(raw, i + 1);
+        if (end !== -1) {
+          code += '/' + ' '.repeat(end - i - 1) + '/';
+          i = end;
+          continue;
+        }
+      }
+
+      if (char === '"' || char === "'" || char === '`') {
+        stringQuote = isPython && raw.startsWith(char.repeat(3), i) ? char.repeat(3) : char;
+        code += stringQuote;
+        i += stringQuote.length - 1;
+        continue;
+      }
+
+      if (char === '{') depth++;
+      else if (char === '}') depth = Math.max(0, depth - 1);
+      else if (char === '(' || char === '[') parens++;
+      else if (char === ')' || char === ']') parens = Math.max(0, parens - 1);
+
+      code += char;
+    }
+
+    // Only template literals and Python triple-quoted strings continue past the end of a line
+    if (stringQuote && stringQuote !== '`' && stringQuote.length !== 3) {
+      stringQuote = null;
+    }
+
+    const blank = raw.trim() === '';
+    infos.push({
+      code,
+      blank,
+      commentOnly: !blank && code.trim() === '',
+      depthStart,
+      depthEnd: depth,
+      parenEnd: parens,
+      indent: raw.length - raw.trimStart().length
+    });
+  }
+
+  return infos;
+}
+
+/**
+ * Find the closing slash of a regular expression literal
+ * @param line Line containing the literal
+ * @param from Index just after the opening slash
+ * @returns Index of the closing slash, or -1 if the line has none
+ */
+function findRegexEnd(line: string, from: number): number {
+  let inClass = false;
+  for (let i = from; i < line.length; i++) {
+    const char = line[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '/' && !inClass) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Chunk a range of lines in a brace-delimited language
+ * @param lines Scanned lines
+ * @param from First line index of the range
+ * @param to Last line index of the range
+ * @param depth Brace depth of the range's statements
+ * @param container Enclosing class, if the range is a class body
+ * @returns Chunks with 0-based line indexes
+ */
+function chunkBraces(lines: LineInfo[], from: number, to: number, depth: number, container?: string): ChunkRange[] {
+  const units = splitBraceUnits(lines, from, to, depth);
+
+  return groupUnits(units, (unit) => {
+    // Namespaces only wrap other declarations, so their content is chunked as if it were top-level
+    const bodyStart = findLine(lines, unit.codeStart, unit.end, line => line.depthEnd > depth);
+    if (NAMESPACE_PATTERN.test(getHeader(lines, unit)) && bodyStart !== undefined && bodyStart < unit.end) {
+      return [
+        { startLine: unit.start, endLine: bodyStart, kind: 'block' },
+        ...chunkBraces(lines, bodyStart + 1, unit.end - 1, depth + 1),
+        { startLine: unit.end, endLine: unit.end, kind: 'block' }
+      ];
+    }
+
+    const declaration = classifyBraceUnit(lines, unit, container);
+    if (!declaration) {
+      return undefined;
+    }
+
+    const chunk: ChunkRange = { startLine: unit.start, endLine: unit.end, ...declaration };
+    if (unit.end - unit.start + 1 <= MAX_CHUNK_LINES) {
+      return [chunk];
+    }
+
+    // Split large classes into their members, keeping the header and fields together
+    const isContainer = declaration.kind === 'class' || declaration.kind === 'interface' || declaration.kind === 'enum';
+    if (isContainer && bodyStart !== undefined && bodyStart < unit.end - 1) {
+      const members = chunkBraces(lines, bodyStart + 1, unit.end - 1, depth + 1, declaration.name);
+      return attachContainerLines(chunk, members, unit.start, bodyStart);
+    }
+
+    return splitIntoWindows(chunk);
+  });
+}
+
+/**
+ * Split a range of brace-language lines into statements at a given depth
+ * @param lines Scanned lines
+ * @param from First line index
+ * @param to Last line index
+ * @param depth Brace depth of the statements
+ * @returns Statements in order
+ */
+function splitBraceUnits(lines: LineInfo[], from: number, to: number, depth: number): Unit[] {
+  const units: Unit[] = [];
+  let i = from;
+
+  while (i <= to) {
+    if (lines[i].blank) {
+      i++;
+      continue;
+    }
+
+    // Leading comments and decorators belong to the statement that follows them
+    const start = i;
+    while (i <= to && (lines[i].commentOnly || lines[i].blank || isDecorator(lines[i]))) {
+      i++;
+    }
+    if (i > to) {
+      units.push({ start, codeStart: to, end: to });
+      break;
+    }
+
+    const codeStart = i;
+    while (i < to && !endsStatement(lines, i, to, depth)) {
+      i++;
+    }
+
+    units.push({ start, codeStart, end: i });
+    i++;
+  }
+
+  return units;
+}
+
+/**
+ * Check whether a statement ends on a line
+ * @param lines Scanned lines
+ * @param index Line index
+ * @param to Last line index of the range
+ * @param depth Brace depth of the statement
+ * @returns True if the statement is complete at the end of the line
+ */
+function endsStatement(lines: LineInfo[], index: number, to: number, depth: number): boolean {
+  const line = lines[index];
+  if (line.depthEnd > depth || line.parenEnd > 0) {
+    return false;
+  }
+
+  const code = line.code.trim();
+  if (/([,([{=+\-*/%&|?:<>.!]|=>)$/.test(code)) {
+    return false;
+  }
+
+  // Allman-style braces, method chains and union and intersection types continue on the next line
+  const nextIndex = findLine(lines, index + 1, to, next => !next.blank && !next.commentOnly);
+  const nextCode = nextIndex !== undefined ? lines[nextIndex].code.trim() : '';
+  return !/^[{.?:)\]|&]/.test(nextCode) && !/^(extends|implements|where|throws)\b/.test(nextCode);
+}
+
+/**
+ * Identify a brace-language statement as a declaration
+ * @param lines Scanned lines
+ * @param unit Statement to classify
+ * @param container Enclosing class, if any
+ * @returns Kind and name of the declaration, or undefined if the statement isn't one
+ */
+function classifyBraceUnit(
+  lines: LineInfo[],
+  unit: Unit,
+  container?: string
+): Pick<ChunkRange, 'kind' | 'name' | 'container'> | undefined {
+  const header = getHeader(lines, unit);
+  const bodyStart = header.indexOf('{');
+
+  const classMatch = header.match(CLASS_PATTERN);
+  if (classMatch) {
+    const keyword = classMatch[1];
+    const kind: ChunkKind = keyword === 'interface' ? 'interface' : keyword === 'enum' ? 'enum' : 'class';
+    return { kind, name: classMatch[2], container };
+  }
+
+  const functionMatch = header.match(FUNCTION_PATTERN) || header.match(ARROW_FUNCTION_PATTERN);
+  if (functionMatch) {
+    return { kind: container ? 'method' : 'function', name: functionMatch[1], container };
+  }
+
+  const typeMatch = header.match(TYPE_ALIAS_PATTERN);
+  if (typeMatch) {
+    return { kind: 'type', name: typeMatch[1], container };
+  }
+
+  // Functions and methods in C-like languages: a name, a parameter list and a body
+  const cMatch = header.match(C_FUNCTION_PATTERN);
+  if (cMatch && bodyStart !== -1 && !CONTROL_KEYWORDS.has(cMatch[1]) && header.indexOf('(') < bodyStart) {
+    const name = cMatch[1].replace(/^#/, '');
+    return { kind: container ? 'method' : 'function', name: name.split('::').pop(), container };
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the code of a statement as a single line. Declarations may wrap their signature over
+ * several lines before the body starts
+ * @param lines Scanned lines
+ * @param unit Statement
+ * @returns The statement's code, with comments and string contents removed
+ */
+function getHeader(lines: LineInfo[], unit: Unit): string {
+  return lines.slice(unit.codeStart, unit.end + 1).map(line => line.code.trim()).join(' ');
+}
+
+/**
+ * Chunk a range of Python lines
+ * @param lines Scanned lines
+ * @param from First line index of the range
+ * @param to Last line index of the range
+ * @param indent Indentation of the range's statements
+ * @param container Enclosing class, if the range is a class body
+ * @returns Chunks with 0-based line indexes
+ */
+function chunkPython(lines: LineInfo[], from: number, to: number, indent: number, container?: string): ChunkRange[] {
+  const units = splitPythonUnits(lines, from, to, indent);
+
+  return groupUnits(units, (unit) => {
+    const header = lines[unit.codeStart].code.trim();
+    const defMatch = header.match(PYTHON_DEF_PATTERN);
+    const classMatch = header.match(PYTHON_CLASS_PATTERN);
+    if (!defMatch && !classMatch) {
+      return undefined;
+    }
+
+    const chunk: ChunkRange = classMatch ?
+      { startLine: unit.start, endLine: unit.end, kind: 'class', name: classMatch[1], container } :
+      { startLine: unit.start, endLine: unit.end, kind: container ? 'method' : 'function', name: defMatch![1], container };
+    if (unit.end - unit.start + 1 <= MAX_CHUNK_LINES) {
+      return [chunk];
+    }
+
+    // Split large classes into their methods; the body is indented more than the header
+    const bodyStart = findLine(lines, unit.codeStart + 1, unit.end, line => !line.blank && !line.commentOnly);
+    if (classMatch && bodyStart !== undefined) {
+      const members = chunkPython(lines, bodyStart, unit.end, lines[bodyStart].indent, classMatch[1]);
+      return attachContainerLines(chunk, members, unit.start, bodyStart - 1);
+    }
+
+    return splitIntoWindows(chunk);
+  });
+}
+
+/**
+ * Split a range of Python lines into statements at a given indentation
+ * @param lines Scanned lines
+ * @param from First line index
+ * @param to Last line index
+ * @param indent Indentation of the statements
+ * @returns Statements in order
+ */
+function splitPythonUnits(lines: LineInfo[], from: number, to: number, indent: number): Unit[] {
+  const units: Unit[] = [];
+  let i = from;
+
+  while (i <= to) {
+    if (lines[i].blank) {
+      i++;
+      continue;
+    }
+
+    // Leading comments and decorators belong to the statement that follows them
+    const start = i;
+    while (i <= to && (lines[i].commentOnly || lines[i].blank || isDecorator(lines[i]))) {
+      i++;
+    }
+    if (i > to) {
+      units.push({ start, codeStart: to, end: to });
+      break;
+    }
+
+    // The statement continues through open brackets, line continuations and indented lines
+    const codeStart = i;
+    let end = i;
+    i++;
+    while (i <= to) {
+      const previous = lines[i - 1];
+      const continues = previous.parenEnd > 0 || previous.code.trimEnd().endsWith('\\');
+      if (!continues && !lines[i].blank && !lines[i].commentOnly && lines[i].indent <= indent) {
+        break;
+      }
+      if (!lines[i].blank) {
+        end = i;
+      }
+      i++;
+    }
+
+    units.push({ start, codeStart, end });
+    i = end + 1;
+  }
+
+  return units;
+}
+
+/**
+ * Turn statements into chunks: declarations become chunks of their own, and the statements
+ * between them are grouped into blocks
+ * @param units Statements in order
+ * @param toDeclaration Returns the chunks for a declaration, or undefined if the statement isn't one
+ * @returns Chunks in order
+ */
+function groupUnits(
+  units: Unit[],
+  toDeclaration: (unit: Unit) => ChunkRange[] | undefined
+): ChunkRange[] {
+  const chunks: ChunkRange[] = [];
+  let block: ChunkRange | undefined;
+
+  const flushBlock = () => {
+    if (block) {
+      chunks.push(...splitIntoWindows(block, MAX_BLOCK_LINES));
+      block = undefined;
+    }
+  };
+
+  for (const unit of units) {
+    const declaration = toDeclaration(unit);
+    if (declaration) {
+      flushBlock();
+      chunks.push(...declaration);
+      continue;
+    }
+
+    if (block && unit.end - block.startLine + 1 > MAX_BLOCK_LINES) {
+      flushBlock();
+    }
+    if (block) {
+      block.endLine = unit.end;
+    } else {
+      block = { startLine: unit.start, endLine: unit.end, kind: 'block' };
+    }
+  }
+  flushBlock();
+
+  return chunks;
+}
+
+/**
+ * Give the lines of a split class that aren't part of a member (header, fields, closing brace)
+ * to the class itself, merging them with adjacent lines of the class where possible
+ * @param chunk Chunk covering the whole class
+ * @param members Chunks of the class body
+ * @param start First line index of the class
+ * @param headerEnd Last line index of the class header
+ * @returns Chunks covering the class
+ */
+function attachContainerLines(chunk: ChunkRange, members: ChunkRange[], start: number, headerEnd: number): ChunkRange[] {
+  const classPart = (startLine: number, endLine: number): ChunkRange =>
+    ({ startLine, endLine, kind: chunk.kind, name: chunk.name, container: chunk.container });
+  const isClassPart = (candidate: ChunkRange) =>
+    candidate.kind === chunk.kind && candidate.name === chunk.name && candidate.container === chunk.container;
+
+  const result: ChunkRange[] = [classPart(start, headerEnd)];
+  for (const member of members) {
+    const last = result[result.length - 1];
+
+    // Fields and other code between the members belong to the class
+    if (member.kind !== 'block') {
+      result.push(member);
+    } else if (isClassPart(last) && member.endLine - last.startLine + 1 <= MAX_BLOCK_LINES) {
+      last.endLine = member.endLine;
+    } else {
+      result.push(classPart(member.startLine, member.endLine));
+    }
+  }
+
+  // The closing brace joins the last chunk
+  const last = result[result.length - 1];
+  last.endLine = Math.max(last.endLine, chunk.endLine);
+
+  return result;
+}
+
+/**
+ * Split a chunk that is too long into consecutive windows of the same kind
+ * @param chunk Chunk to split
+ * @param maxLines Maximum lines per window
+ * @returns The chunk, or its windows
+ */
+function splitIntoWindows(chunk: ChunkRange, maxLines: number = MAX_CHUNK_LINES): ChunkRange[] {
+  const windows: ChunkRange[] = [];
+  for (let start = chunk.startLine; start <= chunk.endLine; start += maxLines) {
+    windows.push({ ...chunk, startLine: start, endLine: Math.min(chunk.endLine, start + maxLines - 1) });
+  }
+  return windows;
+}
+
+/**
+ * Check whether a line is a decorator or annotation, which belongs to the declaration after it
+ * @param line Scanned line
+ * @returns True if the line is a decorator
+ */
+function isDecorator(line: LineInfo): boolean {
+  return /^@[\w.]+(\(.*\))?$/.test(line.code.trim()) && line.parenEnd === 0;
+}
+
+/**
+ * Find the first line in a range matching a predicate
+ * @param lines Scanned lines
+ * @param from First line index
+ * @param to Last line index
+ * @param predicate Test for each line
+ * @returns The index of the first matching line, or undefined if none match
+ */
+function findLine(
+  lines: LineInfo[],
+  from: number,
+  to: number,
+  predicate: (line: LineInfo) => boolean
+): number | undefined {
+  for (let i = from; i <= to; i++) {
+    if (predicate(lines[i])) {
+      return i;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+
+/**
+ * Error thrown for pagination cursors that are malformed or were issued for a different search
+ */
+export class InvalidCursorError extends Error {
+  /**
+   * @param message Description of the problem
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// What a cursor records: the search it was issued for, as a hash, and where the next page starts
+interface CursorState {
+  search: string;
+  offset: number;
+}
+
+/**
+ * Create an opaque cursor pointing at a page of results
+ * @param search Identifies the search, so the cursor can't be used with another one
+ * @param offset Number of results before the page
+ * @returns Cursor text
+ */
+export function encodeCursor(search: string, offset: number): string {
+  const state: CursorState = { search: hashSearch(search), offset };
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+/**
+ * Read the page a cursor points at
+ * @param cursor Cursor text from encodeCursor
+ * @param search Identifies the search the cursor is used with
+ * @returns Number of results before the page
+ * @throws InvalidCursorError if the cursor is malformed or was issued for another search
+ */
+export function decodeCursor(cursor: string, search: string): number {
+  let state: Partial<CursorState>;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new InvalidCursorError('Malformed cursor');
+  }
+
+  if (typeof state !== 'object' || state === null || !Number.isInteger(state.offset) || state.offset! < 0) {
+    throw new InvalidCursorError('Malformed cursor');
+  }
+  if (state.search !== hashSearch(search)) {
+    throw new InvalidCursorError('Cursor belongs to a different query or directory');
+  }
+  return state.offset!;
+}
+
+/**
+ * Shorten the text identifying a search, so cursors stay small
+ * @param search Text identifying the search
+ * @returns Hash of the text
+ */
+function hashSearch(search: string): string {
+  return crypto.createHash('md5').update(search).digest('hex').slice(0, 12);
+}
@@ -0,0 +1,123 @@
+import path from 'path';
+
+/**
+ * Fields every chunk is indexed with. Each field is scored separately and weighted,
+ * so a match in a name counts for more than an incidental mention in the code.
+ */
+export const FIELDS = ['path', 'symbols', 'comments', 'strings', 'body'] as const;
+
+/**
+ * A field of an indexed chunk:
+ * - path: the file's path relative to the indexed directory
+ * - symbols: names of the declarations in the chunk
+ * - comments: comments, including doc comments and Python docstrings
+ * - strings: contents of string literals
+ * - body: the remaining code
+ */
+export type Field = typeof FIELDS[number];
+
+/**
+ * Occurrences of a term in each field, in the order of FIELDS
+ */
+export type FieldFrequencies = number[];
+
+/**
+ * Relative weight of each field when scoring
+ */
+export type FieldWeights = Record<Field, number>;
+
+export const DEFAULT_FIELD_WEIGHTS: FieldWeights = {
+  path: 3,
+  symbols: 3,
+  comments: 1.5,
+  strings: 0.5,
+  body: 1
+};
+
+/**
+ * Get the position of a field in FieldFrequencies arrays
+ * @param field Field name
+ * @returns Index of the field
+ */
+export function getFieldIndex(field: Field): number {
+  return FIELDS.indexOf(field);
+}
+
+/**
+ * Separate source code into its comments, string literal contents and remaining code
+ * @param code Source code
+ * @param file File path, used to pick the language's comment syntax
+ * @returns The text of each part, with pieces separated by spaces or newlines
+ */
+export function separateText(code: string, file: string): { comments: string; strings: string; body: string } {
+  const isPython = path.extname(file).toLowerCase() === '.py';
+  const comments: string[] = [];
+  const strings: string[] = [];
+  const body: string[] = [];
+  let bodyStart = 0;
+  let i = 0;
+
+  // Move the code before a comment or string into the body, and continue after it
+  const take = (target: string[], start: number, contentStart: number, contentEnd: number, end: number) => {
+    body.push(code.slice(bodyStart, start));
+    target.push(code.slice(contentStart, contentEnd));
+    bodyStart = end;
+    i = end;
+  };
+
+  while (i < code.length) {
+    const char = code[i];
+
+    if (isPython ? char === '#' : code.startsWith('//', i)) {
+      const end = findEnd(code, '\n', i);
+      take(comments, i, i + (isPython ? 1 : 2), end, end);
+    } else if (!isPython && code.startsWith('/*', i)) {
+      const end = findEnd(code, '*/', i + 2);
+      take(comments, i, i + 2, end, Math.min(code.length, end + 2));
+    } else if (isPython && (code.startsWith('"""', i) || code.startsWith("'''", i))) {
+      // Triple-quoted strings in Python are mostly docstrings
+      const end = findEnd(code, code.slice(i, i + 3), i + 3);
+      take(comments, i, i + 3, end, Math.min(code.length, end + 3));
+    } else if (char === '"' || char === "'" || char === '`') {
+      const end = findStringEnd(code, i + 1, char);
+      take(strings, i, i + 1, end, Math.min(code.length, end + 1));
+    } else {
+      i++;
+    }
+  }
+  body.push(code.slice(bodyStart));
+
+  return { comments: comments.join('\n'), strings: strings.join('\n'), body: body.join(' ') };
+}
+
+/**
+ * Find the next occurrence of a delimiter
+ * @param code Source code
+ * @param delimiter Delimiter to find
+ * @param from Index to search from
+ * @returns Index of the delimiter, or the end of the code if there is none
+ */
+function findEnd(code: string, delimiter: string, from: number): number {
+  const index = code.indexOf(delimiter, from);
+  return index === -1 ? code.length : index;
+}
+
+/**
+ * Find the closing quote of a string literal. Only template literals span lines;
+ * other strings end at the end of the line if they aren't closed
+ * @param code Source code
+ * @param from Index just after the opening quote
+ * @param quote Opening quote character
+ * @returns Index of the closing quote, or of the end of the line or code
+ */
+function findStringEnd(code: string, from: number, quote: string): number {
+  for (let i = from; i < code.length; i++) {
+    const char = code[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === quote || (char === '\n' && quote !== '`')) {
+      return i;
+    }
+  }
+  return code.length;
+}
@@ -2,13 +2,222 @@
 import { Command } from 'commander';
 import path from 'path';
 import dotenv from 'dotenv';
-import { CodeSearchEngine } from './CodeSearchEngine.js';
+import { CodeSearchEngine, ScoreExplanation, STORAGE_MODES, StorageMode } from './CodeSearchEngine.js';
+import { Snippet, SnippetLine } from './snippets.js';
+import { grepMatchToVimgrep, OUTPUT_FORMATS, OutputFormat, TEMPLATE_SHAPE, toResultRecord, toTemplateData, toVimgrepLines } from './output.js';
+import { parseTemplate, renderTemplate, TemplateError } from './template.js';
+import { logInfo } from './logger.js';
 import { spawn } from 'child_process';
 import fs from 'fs';
+import { FIELDS, FieldWeights } from './fields.js';
+import { QueryParseError } from './query.js';
+import { InvalidCursorError } from './cursor.js';
 
 // Load environment variables from .env file
 dotenv.config();
 
+/**
+ * Parse field weights given as `field=weight` pairs
+ * @param pairs Pairs from the command line
+ * @returns Weight of each field that was given
+ */
+function parseFieldWeights(pairs: string[] = []): Partial<FieldWeights> {
+  const weights: Partial<FieldWeights> = {};
+  for (const pair of pairs) {
+    const [field, value = ''] = pair.split('=');
+    const weight = Number(value);
+    if (!(FIELDS as readonly string[]).includes(field) || value.trim() === '' || !Number.isFinite(weight) || weight < 0) {
+      throw new RangeError(`Invalid field weight "${pair}". Expected field=weight with a field of ${FIELDS.join(', ')} and a weight of at least 0`);
+    }
+    weights[field as keyof FieldWeights] = weight;
+  }
+  return weights;
+}
+
+/**
+ * Parse a whole number given on the command line
+ * @param value Option value
+ * @param option Option name, for error messages
+ * @param min Smallest value allowed
+ * @returns The number
+ */
+function parseWholeNumber(value: string, option: string, min: number): number {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isInteger(number) || number < min) {
+    throw new RangeError(`Invalid ${option} "${value}". Expected a whole number of at least ${min}`);
+  }
+  return number;
+}
+
+/**
+ * Parse a number given on the command line
+ * @param value Option value
+ * @param option Option name, for error messages
+ * @param min Smallest value allowed
+ * @param max Largest value allowed
+ * @returns The number
+ */
+function parseNumber(value: string, option: string, min: number, max: number = Infinity): number {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number) || number < min || number > max) {
+    const range = max === Infinity ? `of at least ${min}` : `from ${min} to ${max}`;
+    throw new RangeError(`Invalid ${option} "${value}". Expected a number ${range}`);
+  }
+  return number;
+}
+
+/**
+ * Parse a size given on the command line
+ * @param value Option value
+ * @param option Option name, for error messages
+ * @param unit Bytes in the unit the size is given in
+ * @returns Size in bytes
+ */
+function parseSize(value: string, option: string, unit: number): number {
+  const size = Number(value);
+  if (value.trim() === '' || !Number.isFinite(size) || size <= 0) {
+    throw new RangeError(`Invalid ${option} "${value}". Expected a number greater than 0`);
+  }
+  return size * unit;
+}
+
+/**
+ * Print the breakdown of a result's score, one line per query term and boost
+ * @param explanation Score explanation
+ */
+function printExplanation(explanation: ScoreExplanation): void {
+  console.log('Score Breakdown:');
+  for (const { query, match, terms, fields, score } of explanation.terms) {
+    const matched = terms.length === 1 && terms[0] === query ? '' : ` → ${terms.join(', ')}`;
+    const fieldScores = Object.entries(fields).map(([field, fieldScore]) => `${field} ${fieldScore.toFixed(3)}`).join(', ');
+    console.log(`  ${score.toFixed(3)}  ${match} "${query}"${matched} (${fieldScores})`);
+  }
+  for (const { name, factor } of explanation.boosts) {
+    console.log(`  ×${factor.toFixed(3)}  ${name} boost`);
+  }
+}
+
+// ANSI escape codes around highlighted matches
+const HIGHLIGHT_START = '\x1b[1;31m';
+const HIGHLIGHT_END = '\x1b[0m';
+
+/**
+ * Print the snippets of a result like grep with context: matching lines are numbered with a colon,
+ * context lines with a hyphen, and separate snippets are divided by --
+ * @param snippets Snippets of the result
+ * @param color Whether to highlight matches with ANSI colors
+ */
+function printSnippets(snippets: Snippet[], color: boolean): void {
+  const width = String(Math.max(...snippets.map(snippet => snippet.endLine))).length;
+  snippets.forEach((snippet, index) => {
+    if (index > 0) {
+      console.log('--');
+    }
+    for (const line of snippet.lines) {
+      const separator = line.highlights.length > 0 ? ':' : '-';
+      console.log(`${String(line.line).padStart(width)}${separator} ${color ? highlightLine(line) : line.text}`);
+    }
+  });
+}
+
+/**
+ * Wrap the highlighted parts of a line in ANSI colors
+ * @param line Snippet line
+ * @returns Line text with escape codes
+ */
+function highlightLine(line: SnippetLine): string {
+  let text = '';
+  let end = 0;
+  for (const highlight of line.highlights) {
+    text += line.text.slice(end, highlight.start) + HIGHLIGHT_START + line.text.slice(highlight.start, highlight.end) + HIGHLIGHT_END;
+    end = highlight.end;
+  }
+  return text + line.text.slice(end);
+}
+
+/**
+ * Decide whether to color output
+ * @param when "always", "never", or "auto" to color only when writing to a terminal and NO_COLOR isn't set
+ * @returns True if output should be colored
+ */
+function useColor(when: string): boolean {
+  switch (when) {
+    case 'always':
+      return true;
+    case 'never':
+      return false;
+    case 'auto':
+      return process.stdout.isTTY === true && !process.env.NO_COLOR;
+    default:
+      throw new Error(`Invalid --color "${when}". Expected auto, always or never`);
+  }
+}
+
+/**
+ * Check an output format given on the command line
+ * @param format Format name
+ * @returns The format
+ */
+function parseOutputFormat(format: string): OutputFormat {
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Invalid --format "${format}". Expected one of ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return format as OutputFormat;
+}
+
+/**
+ * Check a storage mode given on the command line
+ * @param storage Storage mode
+ * @returns The storage mode
+ */
+function parseStorage(storage: string): StorageMode {
+  if (!(STORAGE_MODES as readonly string[]).includes(storage)) {
+    throw new RangeError(`Invalid --storage "${storage}". Expected one of ${STORAGE_MODES.join(', ')}`);
+  }
+  return storage as StorageMode;
+}
+
+/**
+ * Get the text of a --template option. A path of an existing file is read as the template;
+ * anything else is the template itself, with \n and \t standing for a line break and a tab
+ * @param template Option value
+ * @returns Template text
+ * @throws Error if the value has no tags and looks like the path of a file that doesn't exist
+ */
+function readTemplate(template: string): string {
+  if (fs.existsSync(template) && fs.statSync(template).isFile()) {
+    return fs.readFileSync(template, 'utf-8');
+  }
+  // Text without a single tag would print the same line for every result, so it was most likely
+  // meant as a path: one with a directory or a file extension
+  if (!template.includes('{{') && (template.includes('/') || template.includes(path.sep) || /\.\w+$/.test(template))) {
+    throw new Error(`Template file "${template}" doesn't exist`);
+  }
+  return template.replace(/\\([nt\\])/g, (_match, escaped: string) => escaped === 'n' ? '\n' : escaped === 't' ? '\t' : '\\');
+}
+
+/**
+ * Print a list of files in an output format
+ * @param files File paths
+ * @param format Output format. vimgrep isn't supported, and text prints the heading and a bulleted list
+ * @param heading Heading of the text format
+ */
+function printFiles(files: string[], format: OutputFormat, heading: string): void {
+  if (format === 'json') {
+    console.log(JSON.stringify(files, null, 2));
+  } else if (format === 'ndjson') {
+    files.forEach(file => console.log(JSON.stringify(file)));
+  } else if (format === 'paths') {
+    files.forEach(file => console.log(file));
+  } else {
+    console.log(`\n${heading}`);
+    console.log('='.repeat(heading.length));
+    for (const file of files) {
+      console.log(`- ${file}`);
+    }
+  }
+}
+
 // Create a new command line program
 const program = new Command();
 
@@ -27,6 +236,9 @@ program
   .option('-i, --index-path <path>', 'Path to save the index', 'code_index')
   .option('-f, --force', 'Force reindexing of all files even if they exist in the index')
   .option('--no-gitignore', 'Ignore .gitignore files when indexing')
+  .option('-c, --concurrency <number>', 'Number of worker threads used for indexing (default: number of CPUs)')
+  .option('--max-file-size <kb>', 'Skip files larger than this many kilobytes', '1024')
+  .option('--include-generated', 'Index generated and minified files too')
   .action(async (options) => {
     try {
       const directory = path.resolve(options.directory);
@@ -34,18 +246,32 @@ program
       const extensions = options.extensions;
       const forceReindex = options.force || false;
       const respectGitignore = options.gitignore !== false;
+      const concurrency = options.concurrency !== undefined ? parseWholeNumber(options.concurrency, '--concurrency', 1) : undefined;
+      const maxFileSize = parseSize(options.maxFileSize, '--max-file-size', 1024);
+      const skipGenerated = !options.includeGenerated;
       
       console.log(`Indexing directory: ${directory}`);
       console.log(`Using extensions: ${extensions ? extensions.join(', ') : 'default'}`);
       console.log(`Force reindex: ${forceReindex}`);
       console.log(`Respect .gitignore: ${respectGitignore}`);
       
-      const engine = new CodeSearchEngine();
-      await engine.createIndex(directory, extensions);
+      const engine = new CodeSearchEngine(indexPath, { concurrency, maxFileSize, skipGenerated });
+      const stats = await engine.createIndex(directory, extensions, forceReindex, respectGitignore);
+      
+      if (stats.skipped.length > 0) {
+        console.log(`\nSkipped ${stats.skipped.length} files:`);
+        for (const { file, reason } of stats.skipped) {
+          console.log(`- ${path.relative(directory, file)} (${reason})`);
+        }
+      }
       
       console.log('Indexing complete!');
     } catch (error) {
-      console.error('Error during indexing:', error);
+      if (error instanceof RangeError) {
+        console.error(error.message);
+      } else {
+        console.error('Error during indexing:', error);
+      }
       process.exit(1);
     }
   });
@@ -54,48 +280,249 @@ program
 program
   .command('search')
   .description('Search for code snippets matching a query')
-  .requiredOption('-q, --query <text>', 'Search query')
+  .requiredOption('-q, --query <text>', 'Search query. Supports "phrases", AND, OR, NOT, -word, (groups), word* wildcards and path:, ext:, lang:, symbol: and kind: filters')
   .option('-t, --top <number>', 'Number of results to return', '5')
+  .option('--offset <number>', 'Number of top-ranked results to skip', '0')
+  .option('--cursor <cursor>', 'Continue from the page where a previous search with the same query left off')
   .option('-i, --index-path <path>', 'Path to the index', 'code_index')
+  .option('-d, --directory <path>', 'Indexed directory to search (defaults to current directory)')
   .option('-f, --files-only', 'Only show file paths, not code content')
+  .option('--storage <mode>', 'Keep file content in "memory" or read it from "disk" on demand', 'memory')
+  .option('--memory-budget <mb>', 'Maximum megabytes of file content to keep in memory')
+  .option('--k1 <number>', 'BM25 term frequency saturation', '1.2')
+  .option('--b <number>', 'BM25 document length normalization, from 0 (none) to 1 (full)', '0.75')
+  .option('--field-weight <field=weight...>', `Weight of matches in a field (${FIELDS.join(', ')}), e.g. path=5`)
+  .option('--no-stemming', 'Only match words exactly, not other forms with the same stem')
+  .option('--regex', 'Find every match of the query as a regular expression instead of ranking chunks')
+  .option('--literal', 'Find every occurrence of the query as plain text instead of ranking chunks')
+  .option('--case-sensitive', 'With --regex or --literal, distinguish upper and lower case')
+  .option('-w, --whole-word', 'With --regex or --literal, only match whole words')
+  .option('--explain', 'Show how each result\'s score was worked out')
+  .option('-B, --before-context <lines>', 'Lines of context to show before each matching line', '2')
+  .option('-A, --after-context <lines>', 'Lines of context to show after each matching line', '2')
+  .option('-C, --context <lines>', 'Lines of context to show before and after each matching line')
+  .option('--snippets <number>', 'Most snippets to show per result', '3')
+  .option('--color <when>', 'Highlight matches: "auto" (only in a terminal), "always" or "never"', 'auto')
+  .option('--format <format>', `Output format: ${OUTPUT_FORMATS.join(', ')}`, 'text')
+  .option('--template <template>', 'Print each result with a template, given as text or as the path of a template file')
   .action(async (options) => {
     try {
       const query = options.query;
-      const topK = parseInt(options.top);
+      const topK = parseWholeNumber(options.top, '--top', 1);
+      const offset = parseWholeNumber(options.offset, '--offset', 0);
       const indexPath = options.indexPath;
       const filesOnly = options.filesOnly || false;
+      const storage = parseStorage(options.storage);
+      const memoryBudget = options.memoryBudget !== undefined
+        ? parseSize(options.memoryBudget, '--memory-budget', 1024 * 1024)
+        : undefined;
+      const format = parseOutputFormat(options.format);
+      
+      logInfo(`Searching for: "${query}"`);
+      
+      const k1 = parseNumber(options.k1, '--k1', 0);
+      const b = parseNumber(options.b, '--b', 0, 1);
+      const fieldWeights = parseFieldWeights(options.fieldWeight);
+      const stemming = options.stemming !== false;
       
-      console.log(`Searching for: "${query}"`);
+      const engine = new CodeSearchEngine(indexPath, { storage, memoryBudget, k1, b, fieldWeights, stemming });
+      const currentDirectory = options.directory ? path.resolve(options.directory) : process.cwd();
       
-      const engine = new CodeSearchEngine();
-      const currentDirectory = process.cwd();
+      if (options.regex && options.literal) {
+        throw new Error('Use either --regex or --literal, not both');
+      }
+      if (filesOnly && format === 'vimgrep') {
+        throw new Error('--files-only lists files, which --format vimgrep can\'t show. Use --format paths instead');
+      }
       
-      if (filesOnly) {
+      // Templates are checked before searching, including the values they name, so mistakes in
+      // them show up straight away, even when nothing is found
+      const template = options.template !== undefined ? readTemplate(options.template) : undefined;
+      if (template && (format !== 'text' || filesOnly || options.regex || options.literal)) {
+        throw new Error('--template renders ranked results, so it can\'t be combined with --format, --files-only, --regex or --literal');
+      }
+      const parsedTemplate = template !== undefined ? parseTemplate(template, TEMPLATE_SHAPE) : undefined;
+      
+      if (options.regex || options.literal) {
+        // Show every exact match
+        const matches = await engine.grep(query, currentDirectory, {
+          literal: options.literal || false,
+          caseSensitive: options.caseSensitive || false,
+          wholeWord: options.wholeWord || false
+        });
+        const files = Array.from(new Set(matches.map(match => match.file)));
+        
+        if (filesOnly || format === 'paths') {
+          printFiles(files, format, 'Matching Files:');
+        } else if (format === 'json') {
+          console.log(JSON.stringify({ query, total: matches.length, matches }, null, 2));
+        } else if (format === 'ndjson') {
+          matches.forEach(match => console.log(JSON.stringify(match)));
+        } else if (format === 'vimgrep') {
+          matches.forEach(match => console.log(grepMatchToVimgrep(match)));
+        } else {
+          console.log('\nMatches:');
+          console.log('========');
+          for (const match of matches) {
+            console.log(`${match.file}:${match.line}:${match.column}: ${match.lineText.trim()}`);
+          }
+          console.log(`\n${matches.length} matches in ${files.length} files`);
+        }
+      } else if (filesOnly || format === 'paths') {
         // Just show file paths
-        const files = await engine.getRelevantFiles(query, currentDirectory);
-        console.log('\nRelevant Files:');
-        console.log('===============');
-        for (const file of files) {
-          console.log(`- ${file}`);
+        const { files, start, total, nextCursor } = await engine.getRelevantFiles(query, currentDirectory, {
+          limit: topK,
+          offset,
+          cursor: options.cursor
+        });
+        printFiles(files, format, 'Relevant Files:');
+        
+        // Only the text format has room for paging on stdout
+        const report = format === 'text' ? console.log : logInfo;
+        if (format === 'text') {
+          console.log();
+        }
+        if (files.length > 0) {
+          report(`Showing files ${start + 1}-${start + files.length} of ${total}`);
+        } else {
+          report(`No files to show (${total} in total)`);
+        }
+        if (nextCursor) {
+          report(`Next page: --cursor ${nextCursor}`);
         }
       } else {
         // Show detailed results
-        const results = await engine.search(query, currentDirectory);
+        const color = format === 'text' && useColor(options.color);
+        const { results, total, nextCursor } = await engine.searchPage(query, currentDirectory, {
+          limit: topK,
+          offset,
+          cursor: options.cursor,
+          explain: options.explain || false,
+          beforeContext: options.context !== undefined
+            ? parseWholeNumber(options.context, '--context', 0)
+            : parseWholeNumber(options.beforeContext, '--before-context', 0),
+          afterContext: options.context !== undefined
+            ? parseWholeNumber(options.context, '--context', 0)
+            : parseWholeNumber(options.afterContext, '--after-context', 0),
+          maxSnippets: parseWholeNumber(options.snippets, '--snippets', 0)
+        });
         
-        console.log('\nSearch Results:');
-        console.log('==============');
-        for (const result of results) {
-          console.log(`\nRank: ${result.rank}`);
-          console.log(`File: ${result.file}`);
-          console.log(`Relevance Score: ${result.similarityScore.toFixed(3)}`);
-          console.log('Code Example:');
-          console.log('------------');
-          console.log(result.code);
+        if (format === 'json') {
+          console.log(JSON.stringify({ query, total, nextCursor: nextCursor ?? null, results: results.map(toResultRecord) }, null, 2));
+          return;
+        }
+        
+        if (parsedTemplate) {
+          for (const result of results) {
+            const text = renderTemplate(parsedTemplate, toTemplateData(result, currentDirectory), template!);
+            process.stdout.write(text.endsWith('\n') ? text : `${text}\n`);
+          }
+        } else if (format === 'ndjson') {
+          results.forEach(result => console.log(JSON.stringify(toResultRecord(result))));
+        } else if (format === 'vimgrep') {
+          results.forEach(result => toVimgrepLines(result).forEach(line => console.log(line)));
+        } else {
+          console.log('\nSearch Results:');
+          console.log('==============');
+          for (const result of results) {
+            console.log(`\nRank: ${result.rank}`);
+            console.log(`File: ${result.file}:${result.startLine}-${result.endLine}`);
+            const kind = result.exported ? `exported ${result.kind}` : result.kind;
+            console.log(`Symbol: ${result.symbol ? `${result.symbol} (${kind})` : kind}`);
+            console.log(`Relevance Score: ${result.similarityScore.toFixed(3)}`);
+            if (result.corrections) {
+              console.log(`Corrected: ${result.corrections.map(({ term, correction }) => `${term} → ${correction}`).join(', ')}`);
+            }
+            if (result.matchLines) {
+              console.log(`Phrase Lines: ${result.matchLines.join(', ')}`);
+            }
+            if (result.stale) {
+              console.log('Stale: the file changed since it was indexed. Re-index for up-to-date results');
+            }
+            if (result.explanation) {
+              printExplanation(result.explanation);
+            }
+            console.log('------------');
+            printSnippets(result.snippets, color);
+          }
           console.log();
         }
+        
+        // Other formats only carry results on stdout, so paging goes with the diagnostics
+        const report = format === 'text' && !parsedTemplate ? console.log : logInfo;
+        if (results.length > 0) {
+          report(`Showing results ${results[0].rank}-${results[results.length - 1].rank} of ${total}`);
+        } else {
+          report(`No results to show (${total} in total)`);
+        }
+        if (nextCursor) {
+          report(`Next page: --cursor ${nextCursor}`);
+        }
+      }
+    } catch (error) {
+      if (error instanceof QueryParseError) {
+        console.error(`Invalid query: ${error.message}`);
+      } else if (error instanceof TemplateError) {
+        console.error(`Invalid template: ${error.message}`);
+      } else if (error instanceof SyntaxError) {
+        console.error(`Invalid pattern: ${error.message}`);
+      } else if (error instanceof InvalidCursorError || error instanceof RangeError) {
+        console.error(error.message);
+      } else {
+        console.error('Error during search:', error);
       }
+      process.exit(1);
+    }
+  });
+
+// Add watch command
+program
+  .command('watch')
+  .description('Index a directory and keep the index up to date as files change')
+  .requiredOption('-d, --directory <path>', 'Directory to watch')
+  .option('-e, --extensions <extensions...>', 'File extensions to include (e.g. .ts .js)')
+  .option('-i, --index-path <path>', 'Path to save the index', 'code_index')
+  .option('--debounce <ms>', 'Milliseconds to wait after the last change before updating the index', '300')
+  .option('--no-gitignore', 'Ignore .gitignore files when indexing')
+  .option('-c, --concurrency <number>', 'Number of worker threads used for indexing (default: number of CPUs)')
+  .option('--max-file-size <kb>', 'Skip files larger than this many kilobytes', '1024')
+  .option('--include-generated', 'Index generated and minified files too')
+  .option('--storage <mode>', 'Keep file content in "memory" or read it from "disk" on demand', 'memory')
+  .option('--memory-budget <mb>', 'Maximum megabytes of file content to keep in memory')
+  .action(async (options) => {
+    try {
+      const directory = path.resolve(options.directory);
+      const indexPath = options.indexPath;
+      const extensions = options.extensions;
+      const debounceMs = parseWholeNumber(options.debounce, '--debounce', 0);
+      const respectGitignore = options.gitignore !== false;
+      const concurrency = options.concurrency !== undefined ? parseWholeNumber(options.concurrency, '--concurrency', 1) : undefined;
+      const storage = parseStorage(options.storage);
+      const memoryBudget = options.memoryBudget !== undefined
+        ? parseSize(options.memoryBudget, '--memory-budget', 1024 * 1024)
+        : undefined;
+      const maxFileSize = parseSize(options.maxFileSize, '--max-file-size', 1024);
+      const skipGenerated = !options.includeGenerated;
+      
+      const engine = new CodeSearchEngine(indexPath, { concurrency, storage, memoryBudget, maxFileSize, skipGenerated });
+      await engine.createIndex(directory, extensions, false, respectGitignore);
+      
+      const watcher = await engine.watch(directory, { debounceMs });
+      console.log('Press Ctrl+C to stop watching');
+      
+      const signals = ['SIGINT', 'SIGTERM'] as const;
+      signals.forEach((signal) => {
+        process.on(signal, async () => {
+          await watcher.close();
+          process.exit(0);
+        });
+      });
     } catch (error) {
-      console.error('Error during search:', error);
+      if (error instanceof RangeError) {
+        console.error(error.message);
+      } else {
+        console.error('Error during watch:', error);
+      }
       process.exit(1);
     }
   });
@@ -105,9 +532,24 @@ program
   .command('mcp')
   .description('Run as an MCP server for integration with Cline')
   .option('-i, --index-path <path>', 'Path to save the index', 'code_index')
+  .option('-w, --watch', 'Keep indexed directories up to date as files change')
+  .option('--storage <mode>', 'Keep file content in "memory" or read it from "disk" on demand', 'memory')
+  .option('--memory-budget <mb>', 'Maximum megabytes of file content to keep in memory')
   .action(async (options) => {
     try {
       const indexPath = options.indexPath;
+      // The server checks these too, but checking them first reports mistakes before it starts
+      parseStorage(options.storage);
+      if (options.memoryBudget !== undefined) {
+        parseSize(options.memoryBudget, '--memory-budget', 1024 * 1024);
+      }
+      const serverArgs = [indexPath, `--storage=${options.storage}`];
+      if (options.watch) {
+        serverArgs.push('--watch');
+      }
+      if (options.memoryBudget !== undefined) {
+        serverArgs.push(`--memory-budget=${options.memoryBudget}`);
+      }
       
       console.log(`Starting Code Ferret MCP server with index path: ${indexPath}`);
       console.log('This server will run until terminated (Ctrl+C)');
@@ -122,7 +564,7 @@ program
       }
       
       // Spawn the MCP server process
-      const mcpProcess = spawn('node', [scriptPath, indexPath], {
+      const mcpProcess = spawn('node', [scriptPath, ...serverArgs], {
         stdio: 'inherit',
       });
       
@@ -150,7 +592,11 @@ program
         });
       });
     } catch (error) {
-      console.error('Error starting MCP server:', error);
+      if (error instanceof RangeError) {
+        console.error(error.message);
+      } else {
+        console.error('Error starting MCP server:', error);
+      }
       process.exit(1);
     }
   });
@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import { FileEncoding } from './analyzer.js';
+import { ChunkRange } from './chunker.js';
+import { FieldFrequencies } from './fields.js';
+import { logError, logInfo } from './logger.js';
+
+/**
+ * Version of the on-disk index format. Bump this whenever the shape of
+ * PersistedIndex changes so that stale index files are rebuilt instead of misread.
+ */
+export const INDEX_SCHEMA_VERSION = 12;
+
+/**
+ * A chunk of an indexed file as stored on disk
+ */
+export interface PersistedChunk extends ChunkRange {
+  keywords: [string, FieldFrequencies][];
+  positions: [string, number[]][];
+  linePositions: number[];
+}
+
+/**
+ * A single indexed file as stored on disk
+ */
+export interface PersistedFile {
+  file: string; // Path relative to the indexed directory
+  checksum: string;
+  size: number;
+  mtimeMs: number;
+  chunks: PersistedChunk[];
+  lineOffsets: number[];
+  encoding: FileEncoding;
+  trigrams: string; // Character trigrams of the content, encoded by encodeTrigrams
+}
+
+/**
+ * The index for one directory as stored on disk
+ */
+export interface PersistedDirectory {
+  extensions: string[];
+  respectGitignore?: boolean; // Missing in older index files, where .gitignore was always respected
+  indexedAt: string;
+  files: PersistedFile[];
+}
+
+/**
+ * Top-level structure of the index file
+ */
+export interface PersistedIndex {
+  version: number;
+  directories: Record<string, PersistedDirectory>;
+}
+
+/**
+ * Resolve the file that backs an index path. Paths without an extension get `.json` appended,
+ * so the default `code_index` is stored as `code_index.json`.
+ * @param indexPath Index path as given on the command line
+ * @returns Absolute path of the index file
+ */
+export function resolveIndexFile(indexPath: string): string {
+  const resolved = path.resolve(indexPath);
+  return path.extname(resolved) ? resolved : `${resolved}.json`;
+}
+
+/**
+ * A directory ready to be written to the index file: everything but its files, and the JSON of each file
+ */
+export interface SerializedDirectory {
+  settings: Omit<PersistedDirectory, 'files'>;
+  files: Iterable<string>;
+}
+
+/**
+ * Identify the current version of an index file, to tell whether it changed since it was last read
+ * @param indexPath Index path
+ * @returns Size and modification time of the file, or undefined if it doesn't exist
+ */
+export function getIndexFileStamp(indexPath: string): string | undefined {
+  try {
+    const stat = fs.statSync(resolveIndexFile(indexPath));
+    return `${stat.size}:${stat.mtimeMs}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read an index file from disk
+ * @param indexPath Index path
+ * @returns The parsed index, or null if there is no usable index at that path
+ */
+export function readIndexFile(indexPath: string): PersistedIndex | null {
+  const indexFile = resolveIndexFile(indexPath);
+
+  if (!fs.existsSync(indexFile)) {
+    return null;
+  }
+
+  let parsed: PersistedIndex;
+  try {
+    parsed = JSON.parse(fs.readFileSync(indexFile, 'utf-8'));
+  } catch (error) {
+    logError(`Could not read index file at ${indexFile}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+
+  if (!parsed || parsed.version !== INDEX_SCHEMA_VERSION || typeof parsed.directories !== 'object') {
+    logInfo(`Ignoring index file at ${indexFile}: unsupported schema version ${parsed?.version}`);
+    return null;
+  }
+
+  return parsed;
+}
+
+/**
+ * Write an index file to disk. The file is written to a temporary path first and then renamed,
+ * so a crash mid-write never leaves a truncated index behind. It is written a file at a time,
+ * so the whole index never has to fit in a single string.
+ * @param indexPath Index path
+ * @param directories Every directory in the index, by normalized path
+ */
+export function writeIndexFile(indexPath: string, directories: Iterable<[string, SerializedDirectory]>): void {
+  const indexFile = resolveIndexFile(indexPath);
+  const tempFile = `${indexFile}.${process.pid}.tmp`;
+
+  fs.mkdirSync(path.dirname(indexFile), { recursive: true });
+  const fd = fs.openSync(tempFile, 'w');
+  try {
+    fs.writeSync(fd, `{"version":${INDEX_SCHEMA_VERSION},"directories":{`);
+    let directorySeparator = '';
+    for (const [directory, { settings, files }] of directories) {
+      // The settings always have fields, so the files list goes in before their closing brace
+      fs.writeSync(fd, `${directorySeparator}${JSON.stringify(directory)}:${JSON.stringify(settings).slice(0, -1)},"files":[`);
+      let fileSeparator = '';
+      for (const file of files) {
+        fs.writeSync(fd, fileSeparator + file);
+        fileSeparator = ',';
+      }
+      fs.writeSync(fd, ']}');
+      directorySeparator = ',';
+    }
+    fs.writeSync(fd, '}}');
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempFile, indexFile);
+}
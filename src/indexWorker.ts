@@ -0,0 +1,23 @@
+import { parentPort } from 'worker_threads';
+import { analyzeFile, AnalyzeOptions, FileAnalysis, SkippedFile } from './analyzer.js';
+import { WorkerResponse } from './WorkerPool.js';
+
+/**
+ * Task sent to an indexing worker
+ */
+export interface IndexTask {
+  file: string;
+  knownChecksum?: string;
+  options?: AnalyzeOptions;
+}
+
+// Worker thread entry point: analyze each file the pool sends and reply with the result
+parentPort?.on('message', (task: IndexTask) => {
+  let response: WorkerResponse<FileAnalysis | SkippedFile>;
+  try {
+    response = { result: analyzeFile(task.file, task.knownChecksum, task.options) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(response);
+});
@@ -0,0 +1,220 @@
+import path from 'path';
+
+/**
+ * A programming language and the files written in it
+ */
+export interface Language {
+  name: string;
+  aliases: string[]; // Other names the language can be referred to by, e.g. in lang: filters
+  extensions: string[];
+  // Lowercase words that appear throughout code in the language without saying anything about what it does:
+  // reserved words, primitive types, and names every program uses, like self in Python or std in C++.
+  // They are only stopwords as whole identifiers: as part of one, like delete in deleteUser, they are kept
+  stopwords: string[];
+}
+
+/**
+ * Lowercase English words too common in comments and names to tell code apart. They are
+ * stopwords in every language
+ */
+export const COMMON_STOPWORDS = [
+  'the', 'and', 'but', 'nor', 'are', 'was', 'were', 'been', 'being', 'has', 'have', 'had', 'having',
+  'does', 'did', 'its', 'that', 'these', 'those', 'with', 'from', 'into', 'onto', 'than', 'then',
+  'there', 'their', 'they', 'them', 'which', 'who', 'whom', 'whose', 'would', 'should', 'could',
+  'will', 'shall', 'can', 'our', 'you', 'your', 'not', 'also', 'such', 'just', 'very', 'about'
+];
+
+// Reserved words shared by JavaScript and TypeScript
+const JAVASCRIPT_STOPWORDS = [
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'break', 'continue', 'return', 'try', 'catch',
+  'finally', 'throw', 'new', 'delete', 'typeof', 'instanceof', 'void', 'this', 'super', 'class',
+  'extends', 'static', 'const', 'let', 'var', 'function', 'async', 'await', 'yield', 'import', 'export',
+  'from', 'as', 'in', 'of', 'true', 'false', 'null', 'undefined', 'nan', 'infinity', 'debugger'
+];
+
+// Reserved words shared by C and C++
+const C_STOPWORDS = [
+  'include', 'define', 'ifdef', 'ifndef', 'endif', 'pragma', 'if', 'else', 'for', 'while', 'do', 'switch',
+  'case', 'break', 'continue', 'return', 'goto', 'static', 'const', 'extern', 'inline', 'void', 'struct',
+  'union', 'enum', 'typedef', 'sizeof', 'int', 'char', 'short', 'long', 'float', 'double', 'unsigned',
+  'signed', 'null'
+];
+
+/**
+ * Languages Code Ferret knows about. A file belongs to the first language listing its extension
+ */
+export const LANGUAGES: Language[] = [
+  {
+    name: 'typescript',
+    aliases: ['ts'],
+    extensions: ['.ts', '.tsx', '.mts', '.cts'],
+    stopwords: [
+      ...JAVASCRIPT_STOPWORDS, 'interface', 'implements', 'public', 'private', 'protected', 'readonly',
+      'abstract', 'declare', 'namespace', 'keyof', 'satisfies', 'unknown', 'never'
+    ]
+  },
+  {
+    name: 'javascript',
+    aliases: ['js'],
+    extensions: ['.js', '.jsx', '.mjs', '.cjs'],
+    stopwords: [...JAVASCRIPT_STOPWORDS, 'require', 'module', 'exports']
+  },
+  {
+    name: 'python',
+    aliases: ['py'],
+    extensions: ['.py'],
+    stopwords: [
+      'def', 'self', 'cls', 'if', 'elif', 'else', 'for', 'while', 'return', 'import', 'from', 'as', 'class',
+      'try', 'except', 'finally', 'raise', 'with', 'lambda', 'pass', 'yield', 'none', 'true', 'false', 'and',
+      'or', 'not', 'in', 'is', 'global', 'nonlocal', 'assert', 'del', 'async', 'await', 'break', 'continue'
+    ]
+  },
+  {
+    name: 'java',
+    aliases: [],
+    extensions: ['.java'],
+    stopwords: [
+      'public', 'private', 'protected', 'static', 'final', 'abstract', 'void', 'class', 'interface', 'extends',
+      'implements', 'new', 'return', 'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'break',
+      'continue', 'try', 'catch', 'finally', 'throw', 'throws', 'this', 'super', 'import', 'package', 'null',
+      'true', 'false', 'instanceof', 'synchronized', 'volatile', 'transient', 'native', 'override', 'var',
+      'int', 'long', 'short', 'byte', 'char', 'boolean', 'float', 'double'
+    ]
+  },
+  {
+    name: 'kotlin',
+    aliases: ['kt'],
+    extensions: ['.kt', '.kts'],
+    stopwords: [
+      'fun', 'val', 'var', 'class', 'object', 'interface', 'override', 'private', 'public', 'protected',
+      'internal', 'return', 'if', 'else', 'when', 'for', 'while', 'do', 'try', 'catch', 'finally', 'throw',
+      'this', 'super', 'null', 'true', 'false', 'import', 'package', 'companion', 'open', 'sealed',
+      'suspend', 'lateinit', 'is', 'as', 'in', 'unit'
+    ]
+  },
+  {
+    name: 'csharp',
+    aliases: ['cs', 'c#'],
+    extensions: ['.cs'],
+    stopwords: [
+      'using', 'namespace', 'public', 'private', 'protected', 'internal', 'static', 'readonly', 'const',
+      'void', 'class', 'interface', 'struct', 'enum', 'new', 'return', 'if', 'else', 'for', 'foreach',
+      'while', 'do', 'switch', 'case', 'break', 'continue', 'try', 'catch', 'finally', 'throw', 'this',
+      'base', 'null', 'true', 'false', 'var', 'override', 'virtual', 'abstract', 'sealed', 'async', 'await',
+      'int', 'long', 'short', 'byte', 'char', 'bool', 'float', 'double', 'decimal'
+    ]
+  },
+  {
+    name: 'cpp',
+    aliases: ['c++'],
+    extensions: ['.cpp', '.cc', '.cxx', '.hpp', '.hh', '.h'],
+    stopwords: [
+      ...C_STOPWORDS, 'namespace', 'using', 'std', 'public', 'private', 'protected', 'virtual', 'override',
+      'class', 'template', 'typename', 'try', 'catch', 'throw', 'this', 'new', 'delete', 'nullptr', 'true',
+      'false', 'auto', 'bool', 'explicit', 'operator', 'constexpr'
+    ]
+  },
+  { name: 'c', aliases: [], extensions: ['.c', '.h'], stopwords: C_STOPWORDS },
+  {
+    name: 'go',
+    aliases: ['golang'],
+    extensions: ['.go'],
+    stopwords: [
+      'func', 'package', 'import', 'return', 'if', 'else', 'for', 'range', 'switch', 'case', 'default',
+      'break', 'continue', 'defer', 'var', 'const', 'type', 'struct', 'interface', 'nil', 'true', 'false',
+      'chan', 'select', 'int', 'string', 'bool'
+    ]
+  },
+  {
+    name: 'rust',
+    aliases: ['rs'],
+    extensions: ['.rs'],
+    stopwords: [
+      'fn', 'let', 'mut', 'pub', 'impl', 'use', 'mod', 'crate', 'self', 'super', 'struct', 'enum', 'trait',
+      'match', 'return', 'if', 'else', 'for', 'while', 'loop', 'break', 'continue', 'where', 'as', 'ref',
+      'move', 'async', 'await', 'dyn', 'unsafe', 'true', 'false'
+    ]
+  },
+  {
+    name: 'ruby',
+    aliases: ['rb'],
+    extensions: ['.rb'],
+    stopwords: [
+      'def', 'end', 'class', 'module', 'self', 'if', 'elsif', 'else', 'unless', 'while', 'until', 'for', 'do',
+      'return', 'begin', 'rescue', 'ensure', 'raise', 'yield', 'nil', 'true', 'false', 'require', 'then'
+    ]
+  },
+  {
+    name: 'php',
+    aliases: [],
+    extensions: ['.php'],
+    stopwords: [
+      'php', 'function', 'public', 'private', 'protected', 'static', 'class', 'interface', 'extends',
+      'implements', 'return', 'if', 'else', 'elseif', 'foreach', 'for', 'while', 'new', 'this', 'echo',
+      'namespace', 'use', 'null', 'true', 'false'
+    ]
+  },
+  {
+    name: 'swift',
+    aliases: [],
+    extensions: ['.swift'],
+    stopwords: [
+      'func', 'let', 'var', 'class', 'struct', 'enum', 'protocol', 'extension', 'import', 'return', 'if',
+      'else', 'guard', 'for', 'while', 'switch', 'case', 'self', 'nil', 'true', 'false', 'public', 'private',
+      'internal', 'static', 'override'
+    ]
+  }
+];
+
+// Stopword sets by language name, with '' for files in no known language
+const stopwordSets: Map<string, Set<string>> = new Map();
+
+const commonStopwordSet = new Set(COMMON_STOPWORDS);
+
+/**
+ * Look up a language by its name or one of its aliases
+ * @param name Language name, in any case
+ * @returns The language, or undefined if it isn't known
+ */
+export function findLanguage(name: string): Language | undefined {
+  const lowerName = name.toLowerCase();
+  return LANGUAGES.find(language => language.name === lowerName || language.aliases.includes(lowerName));
+}
+
+/**
+ * Get the language a file is written in, from its extension
+ * @param file File path
+ * @returns The file's language, or undefined if the extension isn't known
+ */
+export function getLanguage(file: string): Language | undefined {
+  const extension = path.extname(file).toLowerCase();
+  return LANGUAGES.find(language => language.extensions.includes(extension));
+}
+
+/**
+ * Get the whole identifiers left out of the index for a file: the stopwords of its language and
+ * the common English ones. Files in no known language leave out the stopwords of every language
+ * @param file File path
+ * @returns Lowercase stopwords
+ */
+export function getStopwords(file: string): Set<string> {
+  const language = getLanguage(file);
+  const key = language?.name ?? '';
+
+  let stopwords = stopwordSets.get(key);
+  if (!stopwords) {
+    const languageStopwords = language ? language.stopwords : LANGUAGES.flatMap(known => known.stopwords);
+    stopwords = new Set([...COMMON_STOPWORDS, ...languageStopwords]);
+    stopwordSets.set(key, stopwords);
+  }
+  return stopwords;
+}
+
+/**
+ * Get the words left out of queries and of the sub-words of identifiers: the common English
+ * stopwords. Reserved words are kept in both, since they are indexed as parts of identifiers
+ * @returns Lowercase stopwords
+ */
+export function getCommonStopwords(): Set<string> {
+  return commonStopwordSet;
+}
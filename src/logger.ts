@@ -0,0 +1,49 @@
+/**
+ * Diagnostics about indexing and searching. They are written to stderr, so stdout only carries
+ * results: search output can be piped into other tools, and the MCP server's stdio transport
+ * isn't interrupted.
+ */
+
+/**
+ * How much to report
+ * - info: progress and problems
+ * - error: only problems
+ * - silent: nothing
+ */
+export type LogLevel = 'info' | 'error' | 'silent';
+
+let level: LogLevel = 'info';
+
+/**
+ * Set how much to report from now on
+ * @param newLevel Log level
+ */
+export function setLogLevel(newLevel: LogLevel): void {
+  level = newLevel;
+}
+
+/**
+ * Report progress or a detail of what is being done
+ * @param message Message to report
+ */
+export function logInfo(message: string): void {
+  if (level === 'info') {
+    console.error(message);
+  }
+}
+
+/**
+ * Report a problem
+ * @param message Description of the problem
+ * @param error Error that caused it, if any
+ */
+export function logError(message: string, error?: unknown): void {
+  if (level === 'silent') {
+    return;
+  }
+  if (error === undefined) {
+    console.error(message);
+  } else {
+    console.error(message, error);
+  }
+}
@@ -3,22 +3,56 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import path from 'path';
 import { z } from 'zod';
-import { CodeSearchEngine } from './CodeSearchEngine.js';
+import { CodeSearchEngine, IndexWatcher, STORAGE_MODES, StorageMode } from './CodeSearchEngine.js';
+import { QueryParseError } from './query.js';
+import { logError, logInfo } from './logger.js';
+
+/**
+ * Get the value of a `--name=value` command line flag
+ * @param args Command line arguments
+ * @param name Flag name without the leading dashes
+ * @returns The flag's value, or undefined if it wasn't given
+ */
+function getFlagValue(args: string[], name: string): string | undefined {
+  const flag = args.find(arg => arg.startsWith(`--${name}=`));
+  return flag?.slice(name.length + 3);
+}
 
 /**
  * Main entry point for the Code Ferret MCP server
  */
 async function main() {
   try {
-    // Get index path from command line args or use default
-    const indexPath = process.argv[2] || 'code_index';
+    // Get index path and flags from command line args or use defaults
+    const args = process.argv.slice(2);
+    const indexPath = args.find(arg => !arg.startsWith('--')) || 'code_index';
+    const watchEnabled = args.includes('--watch');
+    const storage = getFlagValue(args, 'storage') ?? 'memory';
+    if (!(STORAGE_MODES as readonly string[]).includes(storage)) {
+      throw new RangeError(`Invalid --storage "${storage}". Expected one of ${STORAGE_MODES.join(', ')}`);
+    }
+    const memoryBudgetMb = getFlagValue(args, 'memory-budget');
+    let memoryBudget: number | undefined;
+    if (memoryBudgetMb !== undefined) {
+      memoryBudget = Number(memoryBudgetMb) * 1024 * 1024;
+      if (memoryBudgetMb.trim() === '' || !Number.isFinite(memoryBudget) || memoryBudget <= 0) {
+        throw new RangeError(`Invalid --memory-budget "${memoryBudgetMb}". Expected a number greater than 0`);
+      }
+    }
     const currentDirectory = process.cwd();
     
-    console.log(`Starting Code Ferret MCP server with index path: ${indexPath}`);
-    console.log(`Current working directory: ${currentDirectory}`);
+    logInfo(`Starting Code Ferret MCP server with index path: ${indexPath}`);
+    logInfo(`Current working directory: ${currentDirectory}`);
+    logInfo(`Watch mode: ${watchEnabled}`);
+    logInfo(`Storage: ${storage}`);
     
     // Initialize the search engine
-    const searchEngine = new CodeSearchEngine();
+    const searchEngine = new CodeSearchEngine(indexPath, { storage: storage as StorageMode, memoryBudget });
+    
+    // Watchers for directories that are kept up to date, keyed by resolved path
+    const watchers = new Map<string, IndexWatcher>();
+    // Directories that failed to be watched, so the failure is only reported once
+    const unwatchable = new Set<string>();
     
     // Create an MCP server
     const server = new McpServer({
@@ -30,54 +64,123 @@ async function main() {
     server.tool(
       'search_code',
       {
-        query: z.string().describe('Search query to find in code'),
+        query: z.string().describe('Search query to find in code. Supports "exact phrases", AND, OR, NOT, -word, (grouping), word* wildcards, and the filters path:, ext:, lang:, symbol: and kind: (e.g. kind:class path:src/cache)'),
         directory: z.string().optional().describe('Directory to search in (defaults to current directory)'),
         extensions: z.array(z.string()).optional().describe('File extensions to include in search').default(['.ts', '.tsx', '.js', '.jsx', '.kt', '.py', '.java', '.cpp', '.cs']),
-        top: z.number().optional().describe('Number of results to return (default: 10)').default(10),
+        top: z.number().int().min(1).optional().describe('Number of results to return (default: 10)').default(10),
+        offset: z.number().int().min(0).optional().describe('In keyword mode, number of top-ranked results to skip (default: 0)').default(0),
+        cursor: z.string().optional().describe('In keyword mode, nextCursor from a previous search with the same query, to get the following page'),
+        respectGitignore: z.boolean().optional().describe('Whether to skip files matched by .gitignore (default: true). .ferretignore always applies').default(true),
+        mode: z.enum(['keyword', 'regex', 'literal']).optional().describe('"keyword" ranks matching chunks (default). "regex" and "literal" return every exact match of the query with its line and column').default('keyword'),
+        caseSensitive: z.boolean().optional().describe('In regex and literal mode, distinguish upper and lower case (default: false)').default(false),
+        wholeWord: z.boolean().optional().describe('In regex and literal mode, only match whole words (default: false)').default(false),
+        contextLines: z.number().int().min(0).optional().describe('In keyword mode, lines of context around each matching line of a snippet (default: 2)').default(2),
+        explain: z.boolean().optional().describe('In keyword mode, break each result\'s score down by query term, field and boost (default: false)').default(false),
       },
-      async ({ query, directory, extensions }) => {
+      async ({ query, directory, extensions, top, offset, cursor, respectGitignore, mode, caseSensitive, wholeWord, contextLines, explain }) => {
         try {
-          console.log(`Searching for: "${query}"`);
+          logInfo(`Searching for: "${query}"`);
           
           const resolvedDirectory = directory ? path.resolve(directory) : currentDirectory;
           
-          // Index the directory if specified
-          if (directory) {
-            console.log(`Indexing directory: ${resolvedDirectory}`);
+          // Index the directory if specified. Watched directories are already up to date
+          if (directory && !watchers.has(resolvedDirectory)) {
+            logInfo(`Indexing directory: ${resolvedDirectory}`);
             // Use default extensions if not provided
             const defaultExtensions = ['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.cpp', '.cs'];
             const resolvedExtensions = extensions || defaultExtensions;
-            await searchEngine.createIndex(resolvedDirectory, resolvedExtensions);
+            await searchEngine.createIndex(resolvedDirectory, resolvedExtensions, false, respectGitignore);
+          }
+          
+          // Keep the directory's index live so later searches never see a stale snapshot.
+          // A directory that can't be watched is still searched, as it is without --watch
+          if (watchEnabled && !watchers.has(resolvedDirectory) && !unwatchable.has(resolvedDirectory)) {
+            try {
+              watchers.set(resolvedDirectory, await searchEngine.watch(resolvedDirectory));
+            } catch (error) {
+              unwatchable.add(resolvedDirectory);
+              logError(`Error watching ${resolvedDirectory}, its index won't be kept up to date:`, error);
+            }
+          }
+          
+          // Return every exact match with its location
+          if (mode === 'regex' || mode === 'literal') {
+            const matches = await searchEngine.grep(query, resolvedDirectory, {
+              literal: mode === 'literal',
+              caseSensitive,
+              wholeWord
+            });
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(matches, null, 2)
+                },
+                {
+                  type: 'text',
+                  text: `Found ${matches.length} matches for ${mode} "${query}"`
+                }
+              ]
+            };
           }
           
           // Search for code
-          console.log(`Performing search...`);
-          const results = await searchEngine.search(query, resolvedDirectory);
+          logInfo(`Performing search...`);
+          const { results, total, nextCursor } = await searchEngine.searchPage(query, resolvedDirectory, {
+            limit: top,
+            offset,
+            cursor,
+            explain,
+            beforeContext: contextLines,
+            afterContext: contextLines
+          });
           
-          // Extract just the file paths
-          const filePaths = results.map(result => result.file);
+          // Return each matching chunk with its location
+          const chunks = results.map(result => ({
+            file: result.file,
+            startLine: result.startLine,
+            endLine: result.endLine,
+            symbol: result.symbol,
+            kind: result.kind,
+            exported: result.exported,
+            score: result.similarityScore,
+            corrections: result.corrections,
+            matchLines: result.matchLines,
+            explanation: result.explanation,
+            code: result.code,
+            snippets: result.snippets,
+            stale: result.stale
+          }));
           
-          console.log(`Found ${filePaths.length} results`);
+          logInfo(`Found ${total} results, returning ${chunks.length}`);
           
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(filePaths, null, 2)
+                text: JSON.stringify(chunks, null, 2)
               },
               {
                 type: 'text',
-                text: `Found ${filePaths.length} results for query "${query}"`
+                text: chunks.length > 0
+                  ? `Showing results ${results[0].rank}-${results[results.length - 1].rank} of ${total} for query "${query}"`
+                    + (nextCursor ? `. Pass cursor "${nextCursor}" for the next page` : '')
+                  : `No results to show for query "${query}" (${total} in total)`
               }
             ]
           };
         } catch (error) {
-          console.error('Error in search_code:', error);
+          logError('Error in search_code:', error);
           return {
             content: [
               {
                 type: 'text',
-                text: `Error: ${error instanceof Error ? error.message : String(error)}`
+                text: error instanceof QueryParseError
+                  ? `Invalid query: ${error.message}`
+                  : error instanceof SyntaxError
+                    ? `Invalid pattern: ${error.message}`
+                    : `Error: ${error instanceof Error ? error.message : String(error)}`
               }
             ],
             isError: true
@@ -87,32 +190,33 @@ async function main() {
     );
     
     // Start the server
-    console.log('Connecting to stdio transport...');
+    logInfo('Connecting to stdio transport...');
     const transport = new StdioServerTransport();
     await server.connect(transport);
-    console.log('Code Ferret MCP server running on stdio');
+    logInfo('Code Ferret MCP server running on stdio');
     
     // Handle signals for graceful shutdown
     process.on('SIGINT', handleShutdown);
     process.on('SIGTERM', handleShutdown);
     
     async function handleShutdown() {
-      console.log('Shutting down server...');
+      logInfo('Shutting down server...');
       try {
+        await Promise.all(Array.from(watchers.values()).map(watcher => watcher.close()));
         await server.close();
-        console.log('Server closed successfully');
+        logInfo('Server closed successfully');
       } catch (error) {
-        console.error('Error during shutdown:', error);
+        logError('Error during shutdown:', error);
       }
       process.exit(0);
     }
   } catch (error) {
-    console.error('Error starting MCP server:', error);
+    logError('Error starting MCP server:', error);
     process.exit(1);
   }
 }
 
 main().catch(error => {
-  console.error('Unhandled error in main:', error);
+  logError('Unhandled error in main:', error);
   process.exit(1);
 });
@@ -0,0 +1,157 @@
+import path from 'path';
+import { GrepMatch, QueryCorrection, ScoreExplanation, SearchResult } from './CodeSearchEngine.js';
+import { ChunkKind } from './chunker.js';
+import { Snippet } from './snippets.js';
+import { TemplateData, TemplateShape } from './template.js';
+
+/**
+ * Formats the CLI can print results in
+ * - text: decorated output for reading in a terminal
+ * - json: a single JSON document with every result
+ * - ndjson: one JSON record per line for each result
+ * - vimgrep: file:line:column:text lines, for quickfix lists, fzf and other line-based tools
+ * - paths: the path of each file with a result, once per line
+ */
+export const OUTPUT_FORMATS = ['text', 'json', 'ndjson', 'vimgrep', 'paths'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/**
+ * A ranked search result as printed in the json and ndjson formats. Fields are always present,
+ * with null or empty values when they don't apply, so scripts can rely on them
+ */
+export interface ResultRecord {
+  file: string;
+  rank: number;
+  score: number;
+  startLine: number; // 1-based, inclusive
+  endLine: number; // 1-based, inclusive
+  kind: ChunkKind;
+  symbol: string | null;
+  exported: boolean | null; // Null where it isn't known, outside TypeScript and JavaScript
+  corrections: QueryCorrection[];
+  matchLines: number[];
+  snippets: Snippet[];
+  stale: boolean; // The file changed since it was indexed
+  explanation?: ScoreExplanation; // Only with --explain
+}
+
+/**
+ * Convert a search result to its json and ndjson record
+ * @param result Search result
+ * @returns Result record
+ */
+export function toResultRecord(result: SearchResult): ResultRecord {
+  return {
+    file: result.file,
+    rank: result.rank,
+    score: result.similarityScore,
+    startLine: result.startLine,
+    endLine: result.endLine,
+    kind: result.kind,
+    symbol: result.symbol ?? null,
+    exported: result.exported ?? null,
+    corrections: result.corrections ?? [],
+    matchLines: result.matchLines ?? [],
+    snippets: result.snippets,
+    stale: result.stale ?? false,
+    ...(result.explanation ? { explanation: result.explanation } : {})
+  };
+}
+
+/**
+ * Format a search result as vimgrep lines: one for each line of its snippets with a match,
+ * at the column of the first match. A result with no matching line, like one found only by its
+ * path, gets a line for the start of the chunk
+ * @param result Search result
+ * @returns Lines in file:line:column:text form
+ */
+export function toVimgrepLines(result: SearchResult): string[] {
+  const lines = result.snippets
+    .flatMap(snippet => snippet.lines)
+    .filter(line => line.highlights.length > 0)
+    .map(line => `${result.file}:${line.line}:${line.highlights[0].start + 1}:${line.text}`);
+  if (lines.length > 0) {
+    return lines;
+  }
+
+  const firstLine = result.snippets[0]?.lines[0];
+  return [`${result.file}:${result.startLine}:1:${firstLine?.text ?? ''}`];
+}
+
+/**
+ * Format an exact match as a vimgrep line
+ * @param match Exact match
+ * @returns Line in file:line:column:text form
+ */
+export function grepMatchToVimgrep(match: GrepMatch): string {
+  return `${match.file}:${match.line}:${match.column}:${match.lineText}`;
+}
+
+/**
+ * The values toTemplateData gives each result, so templates can be checked before searching
+ */
+export const TEMPLATE_SHAPE: { [name: string]: TemplateShape } = {
+  file: true,
+  path: true,
+  line: true,
+  startLine: true,
+  endLine: true,
+  rank: true,
+  score: true,
+  kind: true,
+  symbol: true,
+  exported: true,
+  code: true,
+  snippet: true,
+  snippets: [{ startLine: true, endLine: true, text: true, lines: [{ line: true, text: true, match: true }] }],
+  corrections: [{ term: true, correction: true }],
+  matchLines: [true],
+  stale: true
+};
+
+/**
+ * Get the values a --template can use for a search result
+ * - file, path: the file's absolute path, and its path relative to the searched directory
+ * - line: the first matching line of the result, or its first line if no line matches
+ * - startLine, endLine, rank, kind, symbol, code
+ * - exported: whether the module exports the declaration, null outside TypeScript and JavaScript
+ * - score: rounded to three decimal places
+ * - snippet: text of the result's first snippet
+ * - snippets: each with startLine, endLine, text and lines, and each line with line, text and
+ *   match, which is true for lines with a match
+ * - corrections: each with term and correction
+ * - matchLines: lines on which a phrase of the query starts
+ * - stale: true if the file changed since it was indexed
+ * @param result Search result
+ * @param directory Searched directory
+ * @returns Template values
+ */
+export function toTemplateData(result: SearchResult, directory: string): TemplateData {
+  const snippets = result.snippets.map(snippet => ({
+    startLine: snippet.startLine,
+    endLine: snippet.endLine,
+    text: snippet.lines.map(line => line.text).join('\n'),
+    lines: snippet.lines.map(line => ({ line: line.line, text: line.text, match: line.highlights.length > 0 }))
+  }));
+  const firstMatch = snippets.flatMap(snippet => snippet.lines).find(line => line.match);
+
+  return {
+    file: result.file,
+    path: path.relative(directory, result.file).split(path.sep).join('/'),
+    line: firstMatch ? firstMatch.line : result.startLine,
+    startLine: result.startLine,
+    endLine: result.endLine,
+    rank: result.rank,
+    score: Number(result.similarityScore.toFixed(3)),
+    kind: result.kind,
+    symbol: result.symbol ?? null,
+    exported: result.exported ?? null,
+    code: result.code,
+    snippet: snippets[0]?.text ?? '',
+    snippets,
+    corrections: (result.corrections ?? []).map(({ term, correction }) => ({ term, correction })),
+    matchLines: result.matchLines ?? [],
+    stale: result.stale ?? false
+  };
+}
@@ -0,0 +1,98 @@
+import { InvertedIndex } from './InvertedIndex.js';
+
+/**
+ * Tuning parameters of the proximity boost
+ */
+export interface ProximityParameters {
+  weight: number; // Largest share added to a score, reached when every pair of query words is adjacent
+  window: number; // Distance in words at which a pair of query words counts half as close as adjacent words
+}
+
+export const DEFAULT_PROXIMITY_PARAMETERS: ProximityParameters = { weight: 0.5, window: 10 };
+
+/**
+ * Find where a phrase occurs in a document. The words of the phrase must appear in order,
+ * each at its offset from the first word
+ * @param index Inverted index holding the document
+ * @param document Document id
+ * @param words Words of the phrase and their offset from its first word
+ * @returns Positions at which the phrase starts, in ascending order
+ */
+export function findPhrase(index: InvertedIndex, document: string, words: { term: string; offset: number }[]): number[] {
+  if (words.length === 0) {
+    return [];
+  }
+
+  // Start from the word with the fewest occurrences and check the others at the same offsets
+  const occurrences = words
+    .map(word => ({ ...word, positions: index.getPositions(document, word.term) }))
+    .sort((a, b) => a.positions.length - b.positions.length);
+  const [rarest, ...others] = occurrences;
+  const otherPositions = others.map(word => ({ offset: word.offset, positions: new Set(word.positions) }));
+
+  const starts: number[] = [];
+  for (const position of rarest.positions) {
+    const start = position - rarest.offset;
+    if (otherPositions.every(word => word.positions.has(start + word.offset))) {
+      starts.push(start);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Smallest distance between any position of one list and any position of another
+ * @param a Positions in ascending order
+ * @param b Positions in ascending order
+ * @returns Smallest distance, or Infinity if either list is empty
+ */
+export function minimumDistance(a: number[], b: number[]): number {
+  let distance = Infinity;
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    distance = Math.min(distance, Math.abs(a[i] - b[j]));
+    if (a[i] < b[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Factor by which to multiply a document's score for how close together the query words occur in it.
+ * Each pair of consecutive query words adds to the boost in proportion to how close their nearest
+ * occurrences are, so words in the same few lines of a function boost more than words far apart.
+ * @param index Inverted index holding the document
+ * @param document Document id
+ * @param wordTerms For each query word in order, the indexed terms it matches
+ * @param parameters Proximity parameters
+ * @returns Factor of at least 1
+ */
+export function proximityBoost(
+  index: InvertedIndex,
+  document: string,
+  wordTerms: string[][],
+  parameters: ProximityParameters = DEFAULT_PROXIMITY_PARAMETERS
+): number {
+  if (wordTerms.length < 2) {
+    return 1;
+  }
+
+  // Merge the positions of every term a word matches
+  const wordPositions = wordTerms.map(terms =>
+    terms.flatMap(term => index.getPositions(document, term)).sort((a, b) => a - b));
+
+  let closeness = 0;
+  for (let i = 1; i < wordPositions.length; i++) {
+    const distance = minimumDistance(wordPositions[i - 1], wordPositions[i]);
+    if (distance !== Infinity) {
+      // Words at the same position are parts of one identifier, which is as close as adjacent words
+      closeness += parameters.window / (parameters.window + Math.max(distance, 1) - 1);
+    }
+  }
+
+  return 1 + parameters.weight * closeness / (wordPositions.length - 1);
+}
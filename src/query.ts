@@ -0,0 +1,310 @@
+import { CHUNK_KINDS } from './chunker.js';
+import { findLanguage, LANGUAGES } from './languages.js';
+
+/**
+ * Fields a query can filter results on
+ * - path: the file's path relative to the indexed directory contains the value
+ * - ext: the file has the extension
+ * - lang: the file is written in the language
+ * - symbol: the chunk's declaration, or the class it belongs to, has the name
+ * - kind: the chunk is a declaration of the kind
+ */
+export const FILTER_FIELDS = ['path', 'ext', 'lang', 'symbol', 'kind'] as const;
+
+export type FilterField = typeof FILTER_FIELDS[number];
+
+/**
+ * A parsed search query
+ * - word: a word to search for. It may contain * wildcards, which match any characters
+ * - phrase: words that must occur together, in order
+ * - filter: a condition on the chunk's file or declaration
+ * - and: every child must match
+ * - or: at least one child must match
+ * - any: words written next to each other. Phrases, filters and negations among them must match,
+ *   and chunks must match at least one of the other children, ranked by how well they match
+ * - not: the child must not match
+ */
+export type QueryNode =
+  | { type: 'word'; text: string; wildcard: boolean }
+  | { type: 'phrase'; text: string }
+  | { type: 'filter'; field: FilterField; value: string }
+  | { type: 'and' | 'or' | 'any'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+/**
+ * Error thrown for queries that don't follow the query syntax
+ */
+export class QueryParseError extends Error {
+  /**
+   * @param message Description of the problem
+   * @param position Index in the query where the problem was found
+   */
+  constructor(message: string, readonly position: number) {
+    super(`${message} at column ${position + 1}`);
+    this.name = 'QueryParseError';
+  }
+}
+
+// A token of the query syntax
+interface QueryToken {
+  type: 'word' | 'phrase' | 'filter' | 'and' | 'or' | 'not' | 'open' | 'close';
+  text: string;
+  position: number;
+  field?: FilterField;
+}
+
+/**
+ * Parse a search query. Words are searched for individually; `"..."` matches a phrase;
+ * `AND`, `OR` and `NOT` (or a leading `-`) combine terms, with parentheses for grouping; and
+ * `field:value` filters on path, ext, lang, symbol and kind. OR binds loosest, then AND,
+ * then words written next to each other, then NOT.
+ * @param query Query text
+ * @returns Parsed query
+ * @throws QueryParseError if the query is malformed
+ */
+export function parseQuery(query: string): QueryNode {
+  const tokens = lexQuery(query);
+  if (tokens.length === 0) {
+    throw new QueryParseError('Query is empty', 0);
+  }
+
+  let index = 0;
+  const peek = (): QueryToken | undefined => tokens[index];
+
+  // Combine the operands of an operator, flattening a single operand to itself
+  const combine = (type: 'and' | 'or' | 'any', children: QueryNode[]): QueryNode =>
+    children.length === 1 ? children[0] : { type, children };
+
+  const expectOperand = (operator: QueryToken) => {
+    const next = peek();
+    if (!next || next.type === 'and' || next.type === 'or' || next.type === 'close') {
+      throw new QueryParseError(`Expected a search term after "${operator.text}"`, next ? next.position : query.length);
+    }
+  };
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.type === 'or') {
+      expectOperand(tokens[index++]);
+      children.push(parseAnd());
+    }
+    return combine('or', children);
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseAny()];
+    while (peek()?.type === 'and') {
+      expectOperand(tokens[index++]);
+      children.push(parseAny());
+    }
+    return combine('and', children);
+  };
+
+  const parseAny = (): QueryNode => {
+    const children: QueryNode[] = [];
+    for (let token = peek(); token && token.type !== 'and' && token.type !== 'or' && token.type !== 'close'; token = peek()) {
+      children.push(parseUnary());
+    }
+    if (children.length === 0) {
+      const token = peek();
+      throw token
+        ? new QueryParseError(`Expected a search term before "${token.text}"`, token.position)
+        : new QueryParseError('Expected a search term', query.length);
+    }
+    return combine('any', children);
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = tokens[index++];
+    switch (token.type) {
+      case 'not':
+        expectOperand(token);
+        return { type: 'not', child: parseUnary() };
+      case 'open': {
+        if (peek()?.type === 'close') {
+          throw new QueryParseError('Empty parentheses', token.position);
+        }
+        const group = parseOr();
+        if (peek()?.type !== 'close') {
+          throw new QueryParseError('Missing ")" for the "(" opened', token.position);
+        }
+        index++;
+        return group;
+      }
+      case 'phrase':
+        return { type: 'phrase', text: token.text };
+      case 'filter':
+        return { type: 'filter', field: token.field!, value: parseFilterValue(token) };
+      default:
+        return parseWord(token);
+    }
+  };
+
+  const node = parseOr();
+  const unexpected = peek();
+  if (unexpected) {
+    throw new QueryParseError(`Unexpected "${unexpected.text}"`, unexpected.position);
+  }
+  return node;
+}
+
+/**
+ * Render a parsed query back as query text, with explicit operators and parentheses
+ * @param node Parsed query
+ * @returns Query text
+ */
+export function formatQuery(node: QueryNode): string {
+  const formatChild = (child: QueryNode) =>
+    child.type === 'and' || child.type === 'or' || child.type === 'any' ? `(${formatQuery(child)})` : formatQuery(child);
+
+  switch (node.type) {
+    case 'word':
+      return node.text;
+    case 'phrase':
+      return `"${node.text}"`;
+    case 'filter':
+      return /\s/.test(node.value) ? `${node.field}:"${node.value}"` : `${node.field}:${node.value}`;
+    case 'not':
+      return `NOT ${formatChild(node.child)}`;
+    case 'any':
+      return node.children.map(formatChild).join(' ');
+    default:
+      return node.children.map(formatChild).join(node.type === 'and' ? ' AND ' : ' OR ');
+  }
+}
+
+/**
+ * Collect the text of the words and phrases a query searches for, leaving out negated ones
+ * @param node Parsed query
+ * @returns Text of each word and phrase, in query order
+ */
+export function getSearchedText(node: QueryNode): string[] {
+  switch (node.type) {
+    case 'word':
+    case 'phrase':
+      return [node.text];
+    case 'filter':
+    case 'not':
+      return [];
+    default:
+      return node.children.flatMap(getSearchedText);
+  }
+}
+
+/**
+ * Turn a pattern with * wildcards, which match any characters, into a regular expression
+ * @param pattern Pattern text
+ * @param anchored Whether the pattern must match the whole text rather than any part of it
+ * @returns Case-insensitive regular expression
+ */
+export function wildcardToRegExp(pattern: string, anchored: boolean): RegExp {
+  const source = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp(anchored ? `^${source}$` : source, 'i');
+}
+
+/**
+ * Split a query into tokens
+ * @param query Query text
+ * @returns Tokens in order
+ * @throws QueryParseError for unterminated phrases and filters without a value
+ */
+function lexQuery(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  // Read a quoted string starting at the opening quote
+  const readQuoted = (): string => {
+    const end = query.indexOf('"', i + 1);
+    if (end === -1) {
+      throw new QueryParseError('Missing closing quote for the phrase', i);
+    }
+    const text = query.slice(i + 1, end);
+    i = end + 1;
+    return text;
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+    const position = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', text: char, position });
+      i++;
+    } else if (char === '"') {
+      tokens.push({ type: 'phrase', text: readQuoted(), position });
+    } else if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ type: 'not', text: '-', position });
+      i++;
+    } else {
+      // A word runs to the next space, quote or unmatched closing parenthesis, so calls like
+      // fetchData() stay one word
+      let depth = 0;
+      while (i < query.length && !/[\s"]/.test(query[i]) && !(query[i] === ')' && depth === 0)) {
+        depth += query[i] === '(' ? 1 : query[i] === ')' ? -1 : 0;
+        i++;
+      }
+      const text = query.slice(position, i);
+
+      const filter = text.match(/^(\w+):(.*)$/);
+      if (text === 'AND' || text === 'OR' || text === 'NOT') {
+        tokens.push({ type: text === 'AND' ? 'and' : text === 'OR' ? 'or' : 'not', text, position });
+      } else if (filter && (FILTER_FIELDS as readonly string[]).includes(filter[1])) {
+        const value = filter[2] === '' && query[i] === '"' ? readQuoted() : filter[2];
+        tokens.push({ type: 'filter', text: value, position, field: filter[1] as FilterField });
+      } else {
+        tokens.push({ type: 'word', text, position });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Check and normalize the value of a filter
+ * @param token Filter token
+ * @returns Normalized value
+ * @throws QueryParseError if the value is missing or not valid for the field
+ */
+function parseFilterValue(token: QueryToken): string {
+  const value = token.text;
+  if (value === '') {
+    throw new QueryParseError(`Missing value for "${token.field}:"`, token.position);
+  }
+
+  switch (token.field) {
+    case 'ext':
+      return value.replace(/^\./, '').toLowerCase();
+    case 'lang':
+      if (!findLanguage(value)) {
+        const names = LANGUAGES.map(language => language.name).join(', ');
+        throw new QueryParseError(`Unknown language "${value}", expected one of ${names}`, token.position);
+      }
+      return value.toLowerCase();
+    case 'kind':
+      if (!(CHUNK_KINDS as readonly string[]).includes(value.toLowerCase())) {
+        throw new QueryParseError(`Unknown kind "${value}", expected one of ${CHUNK_KINDS.join(', ')}`, token.position);
+      }
+      return value.toLowerCase();
+    default:
+      return value;
+  }
+}
+
+/**
+ * Turn a word token into a word node, checking its wildcards
+ * @param token Word token
+ * @returns Word node
+ * @throws QueryParseError if the word consists only of wildcards
+ */
+function parseWord(token: QueryToken): QueryNode {
+  const wildcard = token.text.includes('*');
+  if (wildcard && !/\w/.test(token.text)) {
+    throw new QueryParseError(`Wildcard "${token.text}" needs at least one letter or digit`, token.position);
+  }
+  return { type: 'word', text: token.text, wildcard };
+}
@@ -0,0 +1,148 @@
+import { tokenizeWithSpans } from './tokenizer.js';
+
+/**
+ * What to highlight in the lines of a result
+ */
+export interface HighlightTerms {
+  words: Set<string>; // Lowercase words, highlighted where an identifier or one of its sub-words is the word
+  fragments: Set<string>; // Lowercase text highlighted wherever it occurs, for words matched inside longer ones
+}
+
+/**
+ * A line of a snippet
+ */
+export interface SnippetLine {
+  line: number; // 1-based line in the file
+  text: string;
+  // Highlighted parts of the text, as character offsets with an exclusive end, in order.
+  // Empty for lines shown only as context
+  highlights: { start: number; end: number }[];
+}
+
+/**
+ * A range of lines around the best matches in a result
+ */
+export interface Snippet {
+  startLine: number; // 1-based, inclusive
+  endLine: number; // 1-based, inclusive
+  lines: SnippetLine[];
+}
+
+/**
+ * How snippets are cut from a result
+ */
+export interface SnippetOptions {
+  beforeContext: number; // Lines shown before each matching line
+  afterContext: number; // Lines shown after each matching line
+  maxSnippets: number; // Most snippets per result
+}
+
+export const DEFAULT_SNIPPET_OPTIONS: SnippetOptions = { beforeContext: 2, afterContext: 2, maxSnippets: 3 };
+
+/**
+ * Find the parts of a line to highlight
+ * @param text Line text
+ * @param terms What to highlight
+ * @returns Highlighted parts as character offsets with an exclusive end, in order and without overlaps
+ */
+export function findHighlights(text: string, terms: HighlightTerms): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+  for (const span of tokenizeWithSpans(text)) {
+    if (terms.words.has(span.term)) {
+      ranges.push({ start: span.start, end: span.end });
+    }
+  }
+
+  const lowerText = text.toLowerCase();
+  for (const fragment of terms.fragments) {
+    for (let start = lowerText.indexOf(fragment); start !== -1; start = lowerText.indexOf(fragment, start + 1)) {
+      ranges.push({ start, end: start + fragment.length });
+    }
+  }
+
+  // Merge overlapping ranges, such as an identifier and its own sub-words
+  ranges.sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: { start: number; end: number }[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Cut the best-matching line ranges out of a result. Lines where a phrase starts come first,
+ * then lines matching the most different terms. Each chosen line is shown with its context,
+ * and snippets that overlap or touch are merged
+ * @param lines Lines of the result
+ * @param startLine 1-based line in the file of the first line
+ * @param terms What to highlight
+ * @param phraseLines 1-based lines in the file on which a phrase of the query starts
+ * @param options Snippet options
+ * @returns Snippets in line order. If no line matches, a single snippet from the start of the result,
+ * and none at all if maxSnippets is 0
+ */
+export function createSnippets(
+  lines: string[],
+  startLine: number,
+  terms: HighlightTerms,
+  phraseLines: number[] = [],
+  options: SnippetOptions = DEFAULT_SNIPPET_OPTIONS
+): Snippet[] {
+  if (options.maxSnippets === 0) {
+    return [];
+  }
+
+  const highlights = lines.map(text => findHighlights(text, terms));
+  const phraseIndexes = new Set(phraseLines.map(line => line - startLine));
+
+  // Rank matching lines by whether a phrase starts on them, then by the number of different terms they match
+  const ranked = highlights
+    .map((ranges, index) => ({
+      index,
+      phrase: phraseIndexes.has(index),
+      distinctTerms: new Set(ranges.map(range => lines[index].slice(range.start, range.end).toLowerCase())).size
+    }))
+    .filter(line => line.distinctTerms > 0 || line.phrase)
+    .sort((a, b) => Number(b.phrase) - Number(a.phrase) || b.distinctTerms - a.distinctTerms || a.index - b.index);
+
+  // Take the best lines whose context isn't already shown, or the start of the result if nothing matches
+  const windows: { start: number; end: number }[] = [];
+  const clamp = (index: number) => Math.max(0, Math.min(lines.length - 1, index));
+  for (const { index } of ranked) {
+    if (windows.length >= options.maxSnippets) {
+      break;
+    }
+    if (!windows.some(window => index >= window.start && index <= window.end)) {
+      windows.push({ start: clamp(index - options.beforeContext), end: clamp(index + options.afterContext) });
+    }
+  }
+  if (windows.length === 0 && lines.length > 0) {
+    windows.push({ start: 0, end: clamp(options.beforeContext + options.afterContext) });
+  }
+
+  windows.sort((a, b) => a.start - b.start);
+  const merged: { start: number; end: number }[] = [];
+  for (const window of windows) {
+    const last = merged[merged.length - 1];
+    if (last && window.start <= last.end + 1) {
+      last.end = Math.max(last.end, window.end);
+    } else {
+      merged.push({ ...window });
+    }
+  }
+
+  return merged.map(({ start, end }) => ({
+    startLine: startLine + start,
+    endLine: startLine + end,
+    lines: lines.slice(start, end + 1).map((text, offset) => ({
+      line: startLine + start + offset,
+      text,
+      highlights: highlights[start + offset]
+    }))
+  }));
+}
@@ -0,0 +1,185 @@
+// Suffix replacements of steps 2 and 3 of the Porter algorithm, applied when the rest of the word has a measure above 0
+const STEP2_SUFFIXES: [string, string][] = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'],
+  ['logi', 'log']
+];
+const STEP3_SUFFIXES: [string, string][] = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', '']
+];
+
+// Suffixes removed by step 4 when the rest of the word has a measure above 1, longest first
+const STEP4_SUFFIXES = [
+  'ement', 'ance', 'ence', 'able', 'ible', 'ment', 'ant', 'ent', 'ion', 'ism', 'ate', 'iti', 'ous',
+  'ive', 'ize', 'al', 'er', 'ic', 'ou'
+];
+
+/**
+ * Reduce an English word to its stem with the Porter stemming algorithm, so that
+ * `validating`, `validated` and `validation` all become `valid`
+ * @param word Lowercase word
+ * @returns The word's stem
+ */
+export function stem(word: string): string {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith('sses') || w.endsWith('ies')) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith('s') && !w.endsWith('ss')) {
+    w = w.slice(0, -1);
+  }
+
+  // Step 1b: past tenses and gerunds
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) {
+      w = w.slice(0, -1);
+    }
+  } else {
+    const suffix = w.endsWith('ed') ? 'ed' : w.endsWith('ing') ? 'ing' : undefined;
+    const base = suffix ? w.slice(0, -suffix.length) : '';
+    if (suffix && containsVowel(base)) {
+      w = base;
+      if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) {
+        w += 'e';
+      } else if (endsWithDoubleConsonant(w) && !/[lsz]$/.test(w)) {
+        w = w.slice(0, -1);
+      } else if (measure(w) === 1 && endsWithCvc(w)) {
+        w += 'e';
+      }
+    }
+  }
+
+  // Step 1c: a final y after a vowel becomes i
+  if (w.endsWith('y') && containsVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + 'i';
+  }
+
+  // Steps 2 and 3: double and single suffixes
+  w = replaceSuffix(w, STEP2_SUFFIXES);
+  w = replaceSuffix(w, STEP3_SUFFIXES);
+
+  // Step 4: remaining suffixes
+  const step4Suffix = STEP4_SUFFIXES.find(suffix => w.endsWith(suffix));
+  if (step4Suffix) {
+    const base = w.slice(0, -step4Suffix.length);
+    if (measure(base) > 1 && (step4Suffix !== 'ion' || /[st]$/.test(base))) {
+      w = base;
+    }
+  }
+
+  // Step 5: a final e and double l
+  if (w.endsWith('e')) {
+    const base = w.slice(0, -1);
+    const m = measure(base);
+    if (m > 1 || (m === 1 && !endsWithCvc(base))) {
+      w = base;
+    }
+  }
+  if (w.endsWith('ll') && measure(w) > 1) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
+
+/**
+ * Replace the first matching suffix of a list if the rest of the word has a measure above 0
+ * @param word Word to change
+ * @param suffixes Suffixes and their replacements
+ * @returns The changed word
+ */
+function replaceSuffix(word: string, suffixes: [string, string][]): string {
+  for (const [suffix, replacement] of suffixes) {
+    if (word.endsWith(suffix)) {
+      const base = word.slice(0, -suffix.length);
+      return measure(base) > 0 ? base + replacement : word;
+    }
+  }
+  return word;
+}
+
+/**
+ * Check whether the letter at a position is a consonant. A y is a consonant at the start
+ * of a word or after a vowel
+ * @param word Word
+ * @param index Letter position
+ * @returns True for consonants
+ */
+function isConsonant(word: string, index: number): boolean {
+  const char = word[index];
+  if ('aeiou'.includes(char)) {
+    return false;
+  }
+  if (char === 'y') {
+    return index === 0 || !isConsonant(word, index - 1);
+  }
+  return true;
+}
+
+/**
+ * Count the vowel-consonant sequences in a word, which Porter calls its measure
+ * @param word Word
+ * @returns The measure
+ */
+function measure(word: string): number {
+  let count = 0;
+  let i = 0;
+  while (i < word.length && isConsonant(word, i)) {
+    i++;
+  }
+  while (i < word.length) {
+    while (i < word.length && !isConsonant(word, i)) {
+      i++;
+    }
+    if (i >= word.length) {
+      break;
+    }
+    while (i < word.length && isConsonant(word, i)) {
+      i++;
+    }
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Check whether a word contains a vowel
+ * @param word Word
+ * @returns True if any letter is a vowel
+ */
+function containsVowel(word: string): boolean {
+  for (let i = 0; i < word.length; i++) {
+    if (!isConsonant(word, i)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check whether a word ends with the same consonant twice
+ * @param word Word
+ * @returns True for endings like `tt` or `ss`
+ */
+function endsWithDoubleConsonant(word: string): boolean {
+  const last = word.length - 1;
+  return last > 0 && word[last] === word[last - 1] && isConsonant(word, last);
+}
+
+/**
+ * Check whether a word ends consonant-vowel-consonant, where the last consonant isn't w, x or y
+ * @param word Word
+ * @returns True for endings like `hop` or `fil`
+ */
+function endsWithCvc(word: string): boolean {
+  const last = word.length - 1;
+  return last >= 2 && isConsonant(word, last - 2) && !isConsonant(word, last - 1) &&
+    isConsonant(word, last) && !'wxy'.includes(word[last]);
+}
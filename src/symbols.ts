@@ -0,0 +1,233 @@
+import path from 'path';
+import ts from 'typescript';
+
+/**
+ * Kinds of declaration found in TypeScript and JavaScript files
+ */
+export type DeclarationKind =
+  | 'class'
+  | 'interface'
+  | 'enum'
+  | 'type'
+  | 'namespace'
+  | 'function'
+  | 'method'
+  | 'property'
+  | 'variable';
+
+/**
+ * A named declaration in a source file
+ */
+export interface Declaration {
+  name: string;
+  kind: DeclarationKind;
+  startLine: number; // 1-based, including the declaration's doc comment
+  endLine: number; // 1-based, inclusive
+  exported: boolean; // Exported from the module, or a public member of an exported class or namespace
+  container?: string; // Name of the enclosing class, interface or namespace
+}
+
+// File extensions parsed with the TypeScript compiler, and how to parse them
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.mts': ts.ScriptKind.TS,
+  '.cts': ts.ScriptKind.TS,
+  '.tsx': ts.ScriptKind.TSX,
+  '.js': ts.ScriptKind.JS,
+  '.mjs': ts.ScriptKind.JS,
+  '.cjs': ts.ScriptKind.JS,
+  '.jsx': ts.ScriptKind.JSX
+};
+
+/**
+ * Check whether a file can be parsed with the TypeScript compiler
+ * @param file File path
+ * @returns True for TypeScript and JavaScript files
+ */
+export function isScriptFile(file: string): boolean {
+  return path.extname(file).toLowerCase() in SCRIPT_KINDS;
+}
+
+/**
+ * Parse a TypeScript or JavaScript file and list the declarations in it: classes, interfaces,
+ * enums, type aliases, namespaces, functions, methods, properties and module-level variables.
+ * Variables declared inside function bodies are left out. Module-level declarations count as
+ * exported if they have an export modifier or are named in an `export { … }` list or `export default`.
+ * @param code File content
+ * @param file File path, used to pick the script kind
+ * @returns Declarations in file order
+ */
+export function extractDeclarations(code: string, file: string): Declaration[] {
+  const scriptKind = SCRIPT_KINDS[path.extname(file).toLowerCase()] ?? ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(file, code, ts.ScriptTarget.Latest, true, scriptKind);
+  const declarations: Declaration[] = [];
+  const exportedNames = getExportedNames(sourceFile);
+
+  const getLine = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+  const addDeclaration = (
+    node: ts.Node,
+    name: string,
+    kind: DeclarationKind,
+    exported: boolean,
+    container?: string
+  ) => {
+    declarations.push({
+      name,
+      kind,
+      startLine: getLine(node.getStart(sourceFile, true)),
+      endLine: getLine(node.getEnd()),
+      exported,
+      container
+    });
+  };
+
+  // Module-level declarations are exported by a modifier or an export list, and those of
+  // namespaces by a modifier inside an exported namespace
+  const isExported = (node: ts.Node, name: string | undefined, container: string | undefined, containerExported: boolean) =>
+    container !== undefined ?
+      containerExported && hasExportModifier(node) :
+      hasExportModifier(node) || (name !== undefined && exportedNames.has(name));
+
+  const visit = (node: ts.Node, container: string | undefined, containerExported: boolean) => {
+    const name = getDeclarationName(node);
+
+    if (ts.isClassLike(node) || ts.isInterfaceDeclaration(node) || ts.isEnumDeclaration(node)) {
+      const kind = ts.isClassLike(node) ? 'class' : ts.isInterfaceDeclaration(node) ? 'interface' : 'enum';
+      const exported = isExported(node, name, container, containerExported);
+      if (name) {
+        addDeclaration(node, name, kind, exported, container);
+      }
+      ts.forEachChild(node, child => visit(child, name || container, exported));
+      return;
+    }
+
+    if (ts.isModuleDeclaration(node)) {
+      const exported = isExported(node, name, container, containerExported);
+      if (name) {
+        addDeclaration(node, name, 'namespace', exported, container);
+      }
+      ts.forEachChild(node, child => visit(child, name || container, exported));
+      return;
+    }
+
+    if (ts.isTypeAliasDeclaration(node) && name) {
+      addDeclaration(node, name, 'type', isExported(node, name, container, containerExported), container);
+      return;
+    }
+
+    if (ts.isFunctionDeclaration(node)) {
+      if (name) {
+        addDeclaration(node, name, 'function', isExported(node, name, container, containerExported), container);
+      }
+      return;
+    }
+
+    // Members of classes and interfaces. Properties holding functions count as methods
+    if (ts.isMethodDeclaration(node) || ts.isMethodSignature(node) || ts.isConstructorDeclaration(node) ||
+        ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node) ||
+        ts.isPropertyDeclaration(node) || ts.isPropertySignature(node)) {
+      const memberName = ts.isConstructorDeclaration(node) ? 'constructor' : name;
+      if (memberName) {
+        const holdsFunction = ts.isPropertyDeclaration(node) && node.initializer !== undefined && isFunctionExpression(node.initializer);
+        const kind = ts.isPropertyDeclaration(node) || ts.isPropertySignature(node) ?
+          (holdsFunction ? 'method' : 'property') :
+          'method';
+        addDeclaration(node, memberName, kind, containerExported && !isPrivate(node), container);
+      }
+      return;
+    }
+
+    // Module-level variables, including functions assigned to consts
+    if (ts.isVariableStatement(node)) {
+      for (const declaration of node.declarationList.declarations) {
+        const variableName = getDeclarationName(declaration);
+        if (variableName) {
+          const kind = declaration.initializer && isFunctionExpression(declaration.initializer) ? 'function' : 'variable';
+          const exported = isExported(node, variableName, container, containerExported);
+          addDeclaration(node.declarationList.declarations.length === 1 ? node : declaration, variableName, kind, exported, container);
+        }
+      }
+      return;
+    }
+
+    // Only module-level code and namespace bodies hold further declarations
+    if (ts.isSourceFile(node) || ts.isModuleBlock(node)) {
+      ts.forEachChild(node, child => visit(child, container, containerExported));
+    }
+  };
+
+  visit(sourceFile, undefined, false);
+  return declarations;
+}
+
+/**
+ * Get the name of a declaration node, if it has a plain identifier or string name
+ * @param node Declaration node
+ * @returns The name, or undefined for anonymous and computed names
+ */
+function getDeclarationName(node: ts.Node): string | undefined {
+  const name = (node as ts.NamedDeclaration).name;
+  if (!name) {
+    return undefined;
+  }
+  if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text.replace(/^#/, '');
+  }
+  return undefined;
+}
+
+/**
+ * List the local names a module exports apart from where they are declared, in `export { … }`
+ * lists, `export default name` and `export = name`
+ * @param sourceFile Parsed file
+ * @returns Names of the exported local declarations
+ */
+function getExportedNames(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  for (const statement of sourceFile.statements) {
+    // Lists with a module specifier re-export another module's declarations
+    if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier &&
+        statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        names.add((element.propertyName ?? element.name).text);
+      }
+    } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+      names.add(statement.expression.text);
+    }
+  }
+  return names;
+}
+
+/**
+ * Check whether a declaration has an export modifier
+ * @param node Declaration node
+ * @returns True for `export` declarations, including `export default`
+ */
+function hasExportModifier(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) || []).some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+/**
+ * Check whether a class member is private or protected
+ * @param node Member node
+ * @returns True if the member can't be used outside its class
+ */
+function isPrivate(node: ts.Node): boolean {
+  const name = (node as ts.NamedDeclaration).name;
+  if (name && ts.isPrivateIdentifier(name)) {
+    return true;
+  }
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some(modifier =>
+    modifier.kind === ts.SyntaxKind.PrivateKeyword || modifier.kind === ts.SyntaxKind.ProtectedKeyword);
+}
+
+/**
+ * Check whether an expression is a function or arrow function
+ * @param node Expression node
+ * @returns True if the expression creates a function
+ */
+function isFunctionExpression(node: ts.Expression): boolean {
+  return ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+}
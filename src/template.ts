@@ -0,0 +1,335 @@
+/**
+ * A value templates can show: text, numbers and flags, lists to loop over, and records of named fields
+ */
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateValue[]
+  | { [name: string]: TemplateValue };
+
+/**
+ * Named values a template is rendered with
+ */
+export type TemplateData = { [name: string]: TemplateValue };
+
+/**
+ * The values a template can name: true for a plain value, the fields of a record, or a list of one
+ * item giving the shape of the list's items
+ */
+export type TemplateShape = true | [TemplateShape] | { [name: string]: TemplateShape };
+
+/**
+ * A parsed template
+ * - text: literal text, copied as is
+ * - value: a {{placeholder}}, replaced by the value it names
+ * - each: a {{#each list}} block, rendered once for each item of the list
+ * - if: an {{#if value}} block, rendered if the value is set and not empty, with an optional {{else}} part
+ */
+export type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; name: string; position: number }
+  | { type: 'each'; name: string; position: number; body: TemplateNode[] }
+  | { type: 'if'; name: string; position: number; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+/**
+ * Error thrown for templates that don't follow the template syntax or name unknown values
+ */
+export class TemplateError extends Error {
+  /**
+   * @param message Description of the problem
+   * @param source Template text
+   * @param position Index in the template where the problem was found
+   */
+  constructor(message: string, source: string, readonly position: number) {
+    const lines = source.slice(0, position).split('\n');
+    super(`${message} at line ${lines.length}, column ${lines[lines.length - 1].length + 1}`);
+    this.name = 'TemplateError';
+  }
+}
+
+// A tag between {{ and }}
+const TAG_PATTERN = /\{\{(.*?)\}\}/gs;
+
+// Names of values: fields, dotted paths into records, and the @index, @first and @last of loops
+const NAME_PATTERN = /^@?\w+(?:\.\w+)*$/;
+
+/**
+ * Parse a template. {{name}} is replaced by a value, with dots reaching into the fields of
+ * records, as in {{record.field}}. {{#each list}}...{{/each}} repeats its content for each item of a list,
+ * whose fields can then be used by name, along with {{@index}}, {{@first}} and {{@last}}. Items
+ * that are plain values rather than records are {{this}}.
+ * {{#if name}}...{{else}}...{{/if}} shows its content only if the value is set and not empty.
+ * Lines holding nothing but a block tag are left out of the output.
+ * @param source Template text
+ * @param shape Values the template will be rendered with. If given, the template may only name these
+ * @returns Parsed template
+ * @throws TemplateError if a tag is malformed, a block isn't closed, or a value isn't in the shape
+ */
+export function parseTemplate(source: string, shape?: { [name: string]: TemplateShape }): TemplateNode[] {
+  // Blocks being parsed, innermost last, each collecting the nodes of its current part
+  const root: TemplateNode[] = [];
+  const open: { node: Extract<TemplateNode, { type: 'each' | 'if' }>; nodes: TemplateNode[] }[] = [];
+  const current = () => open.length > 0 ? open[open.length - 1].nodes : root;
+
+  let end = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const position = match.index!;
+    const tag = match[1].trim();
+    const [keyword, name, ...rest] = tag.split(/\s+/);
+
+    // A block tag alone on its line takes the whole line with it, so templates can put blocks on
+    // lines of their own without leaving blank lines in the output
+    let textEnd = position;
+    let tagEnd = position + match[0].length;
+    if (/^(?:#each|#if|else|\/each|\/if)$/.test(keyword)) {
+      const lineStart = source.lastIndexOf('\n', position - 1) + 1;
+      const lineEnd = source.indexOf('\n', tagEnd);
+      const after = source.slice(tagEnd, lineEnd === -1 ? source.length : lineEnd);
+      if (lineStart >= end && source.slice(lineStart, position).trim() === '' && after.trim() === '') {
+        textEnd = lineStart;
+        tagEnd = lineEnd === -1 ? source.length : lineEnd + 1;
+      }
+    }
+
+    if (textEnd > end) {
+      current().push({ type: 'text', text: source.slice(end, textEnd) });
+    }
+    end = tagEnd;
+
+    if (keyword === '#each' || keyword === '#if') {
+      if (!name || rest.length > 0 || !NAME_PATTERN.test(name)) {
+        throw new TemplateError(`Expected a value name after "${keyword}"`, source, position);
+      }
+      const node = keyword === '#each'
+        ? { type: 'each' as const, name, position, body: [] }
+        : { type: 'if' as const, name, position, body: [], otherwise: [] };
+      current().push(node);
+      open.push({ node, nodes: node.body });
+    } else if (keyword === 'else' && !name) {
+      const block = open[open.length - 1];
+      if (!block || block.node.type !== 'if' || block.nodes !== block.node.body) {
+        throw new TemplateError('Unexpected "{{else}}" outside an "{{#if}}" block', source, position);
+      }
+      block.nodes = block.node.otherwise;
+    } else if (keyword === '/each' || keyword === '/if') {
+      const block = open.pop();
+      if (!block || `/${block.node.type}` !== keyword || name) {
+        throw new TemplateError(`Unexpected "{{${tag}}}"`, source, position);
+      }
+    } else if (NAME_PATTERN.test(tag)) {
+      current().push({ type: 'value', name: tag, position });
+    } else {
+      throw new TemplateError(`Invalid tag "{{${match[1]}}}"`, source, position);
+    }
+  }
+
+  if (open.length > 0) {
+    const block = open[open.length - 1].node;
+    throw new TemplateError(`Missing "{{/${block.type}}}" for the "{{#${block.type} ${block.name}}}" opened`, source, block.position);
+  }
+  if (end < source.length) {
+    root.push({ type: 'text', text: source.slice(end) });
+  }
+  if (shape) {
+    checkNames(root, shape, source);
+  }
+  return root;
+}
+
+/**
+ * Check that a parsed template only names values it will be rendered with, and uses lists and
+ * records the way rendering requires
+ * @param template Parsed template
+ * @param shape Values the template will be rendered with
+ * @param source Template text, for error messages
+ * @throws TemplateError for the first value that doesn't exist or can't be used where it is
+ */
+function checkNames(template: TemplateNode[], shape: { [name: string]: TemplateShape }, source: string): void {
+  // Values visible at each point, innermost loop item last, as when rendering
+  const scopes = [shape];
+
+  const lookUp = (name: string, position: number): TemplateShape => {
+    const [first, ...fields] = name.split('.');
+    const scope = [...scopes].reverse().find(candidate => hasOwn(candidate, first));
+    if (!scope) {
+      throw new TemplateError(`Unknown value "${first}"`, source, position);
+    }
+
+    let value = scope[first];
+    for (const field of fields) {
+      if (!isRecordShape(value) || !hasOwn(value, field)) {
+        throw new TemplateError(`Unknown value "${name}"`, source, position);
+      }
+      value = value[field];
+    }
+    return value;
+  };
+
+  const check = (nodes: TemplateNode[]): void => {
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          break;
+        case 'value': {
+          const value = lookUp(node.name, node.position);
+          const item = Array.isArray(value) ? value[0] : value;
+          if (isRecordShape(item)) {
+            throw new TemplateError(`"${node.name}" has fields of its own. Use one of ${Object.keys(item).join(', ')}`, source, node.position);
+          }
+          break;
+        }
+        case 'if':
+          lookUp(node.name, node.position);
+          check(node.body);
+          check(node.otherwise);
+          break;
+        case 'each': {
+          const list = lookUp(node.name, node.position);
+          if (!Array.isArray(list)) {
+            throw new TemplateError(`"${node.name}" is not a list`, source, node.position);
+          }
+          const [item] = list;
+          scopes.push({
+            ...(isRecordShape(item) ? item : { this: item }),
+            '@index': true,
+            '@first': true,
+            '@last': true
+          });
+          check(node.body);
+          scopes.pop();
+          break;
+        }
+      }
+    }
+  };
+
+  check(template);
+}
+
+/**
+ * Check whether a record has a field of its own, so names like constructor and toString that
+ * every object inherits aren't taken for values. Object.hasOwn is missing before Node 16.9
+ * @param record Record of named values
+ * @param name Field name
+ * @returns True if the record itself has the field
+ */
+function hasOwn(record: object, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, name);
+}
+
+/**
+ * Check whether a shape is that of a record of named fields
+ * @param shape Shape to check
+ * @returns True for records
+ */
+function isRecordShape(shape: TemplateShape): shape is { [name: string]: TemplateShape } {
+  return typeof shape === 'object' && !Array.isArray(shape);
+}
+
+/**
+ * Render a parsed template
+ * @param template Parsed template
+ * @param data Values the template can use
+ * @param source Template text, for error messages
+ * @returns Rendered text
+ * @throws TemplateError if the template uses a value that doesn't exist or can't be shown as text
+ */
+export function renderTemplate(template: TemplateNode[], data: TemplateData, source: string): string {
+  // Values visible at each point, innermost loop item last
+  const scopes: TemplateData[] = [data];
+
+  const lookUp = (name: string, position: number): TemplateValue => {
+    const [first, ...fields] = name.split('.');
+    const scope = [...scopes].reverse().find(candidate => hasOwn(candidate, first));
+    if (!scope) {
+      throw new TemplateError(`Unknown value "${first}"`, source, position);
+    }
+
+    let value = scope[first];
+    for (const field of fields) {
+      if (!isRecord(value) || !hasOwn(value, field)) {
+        throw new TemplateError(`Unknown value "${name}"`, source, position);
+      }
+      value = value[field];
+    }
+    return value;
+  };
+
+  const render = (nodes: TemplateNode[]): string => nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'value':
+        return formatValue(lookUp(node.name, node.position), node.name, source, node.position);
+      case 'if':
+        return render(isSet(lookUp(node.name, node.position)) ? node.body : node.otherwise);
+      case 'each': {
+        const list = lookUp(node.name, node.position);
+        if (list === null || list === undefined) {
+          return '';
+        }
+        if (!Array.isArray(list)) {
+          throw new TemplateError(`"${node.name}" is not a list`, source, node.position);
+        }
+        return list.map((item, index) => {
+          scopes.push({
+            ...(isRecord(item) ? item : { this: item }),
+            '@index': index,
+            '@first': index === 0,
+            '@last': index === list.length - 1
+          });
+          try {
+            return render(node.body);
+          } finally {
+            scopes.pop();
+          }
+        }).join('');
+      }
+    }
+  }).join('');
+
+  return render(template);
+}
+
+/**
+ * Check whether a value is a record of named fields
+ * @param value Value to check
+ * @returns True for records
+ */
+function isRecord(value: TemplateValue): value is { [name: string]: TemplateValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether an {{#if}} block should show its content
+ * @param value Value the block tests
+ * @returns False for missing, false and empty values, and for zero
+ */
+function isSet(value: TemplateValue): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+/**
+ * Show a value as text. Lists of plain values are joined with commas
+ * @param value Value to show
+ * @param name Name the value was looked up by, for error messages
+ * @param source Template text, for error messages
+ * @param position Index of the placeholder in the template
+ * @returns Text of the value, empty for missing values
+ * @throws TemplateError for records and lists of records
+ */
+function formatValue(value: TemplateValue, name: string, source: string, position: number): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => formatValue(item, name, source, position)).join(', ');
+  }
+  if (isRecord(value)) {
+    throw new TemplateError(`"${name}" has fields of its own. Use one of ${Object.keys(value).join(', ')}`, source, position);
+  }
+  return String(value);
+}
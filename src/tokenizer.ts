@@ -0,0 +1,141 @@
+// Identifiers, including kebab-case names joined by hyphens
+const IDENTIFIER_PATTERN = /\w+(?:-[A-Za-z]\w*)*/g;
+
+// Sub-words of an identifier: acronyms, capitalized or lowercase words, and numbers
+const SUB_WORD_PATTERN = /[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g;
+
+/**
+ * Split an identifier into its lowercase sub-words. camelCase, PascalCase, snake_case and
+ * kebab-case are all split, and runs of capitals are kept together as acronyms,
+ * so `HTTPClient` gives `http` and `client`
+ * @param identifier Identifier to split
+ * @returns Sub-words in order, or an empty array if the identifier is a single word
+ */
+export function splitIdentifier(identifier: string): string[] {
+  const subWords = (identifier.match(SUB_WORD_PATTERN) || []).map(word => word.toLowerCase());
+  return subWords.length > 1 ? subWords : [];
+}
+
+/**
+ * Break text into lowercase tokens. Each identifier yields itself followed by its sub-words,
+ * so `sendWelcomeEmail` gives `sendwelcomeemail`, `send`, `welcome` and `email`.
+ * Code and queries are tokenized the same way, which makes `get_user`, `getUser` and
+ * `get user` match each other.
+ * @param text Text to tokenize
+ * @returns Tokens in order, with repeats
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const identifier of text.match(IDENTIFIER_PATTERN) || []) {
+    tokens.push(identifier.toLowerCase(), ...splitIdentifier(identifier));
+  }
+  return tokens;
+}
+
+/**
+ * A token, telling identifiers apart from their sub-words
+ */
+export interface Token {
+  term: string;
+  subWord: boolean; // Part of a longer identifier rather than a whole one
+}
+
+/**
+ * Break text into lowercase tokens like tokenize, marking the sub-words of identifiers
+ * @param text Text to tokenize
+ * @returns Tokens in order, with repeats
+ */
+export function tokenizeWithSubWords(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const identifier of text.match(IDENTIFIER_PATTERN) || []) {
+    tokens.push({ term: identifier.toLowerCase(), subWord: false });
+    splitIdentifier(identifier).forEach(subWord => tokens.push({ term: subWord, subWord: true }));
+  }
+  return tokens;
+}
+
+/**
+ * A token together with where it occurs
+ */
+export interface PositionedToken extends Token {
+  position: number; // Word position in the text
+  line: number; // 0-based line of the text
+}
+
+/**
+ * Break text into lowercase tokens like tokenize, recording the position and line of each.
+ * Sub-words take consecutive positions starting at their identifier's own position, so
+ * `connectionPool` sits where the words `connection pool` would and matches them as a phrase
+ * @param text Text to tokenize
+ * @returns Tokens in order, with repeats
+ */
+export function tokenizeWithPositions(text: string): PositionedToken[] {
+  const tokens: PositionedToken[] = [];
+  let position = 0;
+  let line = 0;
+  let lineCheckedUpTo = 0;
+
+  for (const match of text.matchAll(IDENTIFIER_PATTERN)) {
+    for (let i = lineCheckedUpTo; i < match.index!; i++) {
+      if (text[i] === '\n') {
+        line++;
+      }
+    }
+    lineCheckedUpTo = match.index!;
+
+    const subWords = splitIdentifier(match[0]);
+    tokens.push({ term: match[0].toLowerCase(), subWord: false, position, line });
+    subWords.forEach((subWord, offset) => tokens.push({ term: subWord, subWord: true, position: position + offset, line }));
+    position += Math.max(1, subWords.length);
+  }
+  return tokens;
+}
+
+/**
+ * Break a quoted phrase into the words it must match, in order. Identifiers are replaced by
+ * their sub-words, so the phrase `"connectionPool"` matches `connection pool` and vice versa
+ * @param phrase Phrase text, without quotes
+ * @returns Words of the phrase and their offset from its first word
+ */
+export function tokenizePhrase(phrase: string): { term: string; offset: number }[] {
+  const words: { term: string; offset: number }[] = [];
+  for (const identifier of phrase.match(IDENTIFIER_PATTERN) || []) {
+    const subWords = splitIdentifier(identifier);
+    for (const word of subWords.length > 0 ? subWords : [identifier.toLowerCase()]) {
+      words.push({ term: word, offset: words.length });
+    }
+  }
+  return words;
+}
+
+/**
+ * A token together with the characters it covers
+ */
+export interface TokenSpan {
+  term: string;
+  start: number; // Index of the first character in the text
+  end: number; // Index just after the last character
+}
+
+/**
+ * Break text into lowercase tokens like tokenize, recording the characters each covers.
+ * An identifier's span covers it whole, and each sub-word's span covers only that sub-word
+ * @param text Text to tokenize
+ * @returns Tokens in order, with repeats
+ */
+export function tokenizeWithSpans(text: string): TokenSpan[] {
+  const spans: TokenSpan[] = [];
+  for (const match of text.matchAll(IDENTIFIER_PATTERN)) {
+    const start = match.index!;
+    spans.push({ term: match[0].toLowerCase(), start, end: start + match[0].length });
+
+    const subWords = Array.from(match[0].matchAll(SUB_WORD_PATTERN));
+    if (subWords.length > 1) {
+      for (const subWord of subWords) {
+        const subWordStart = start + subWord.index!;
+        spans.push({ term: subWord[0].toLowerCase(), start: subWordStart, end: subWordStart + subWord[0].length });
+      }
+    }
+  }
+  return spans;
+}
@@ -0,0 +1,289 @@
+/**
+ * Character trigrams of file content, used to rule out files before running an exact search.
+ * Every file keeps the sorted set of trigrams it contains. A literal or regex search works out
+ * which trigrams any match must contain, and only files containing all of them are read.
+ *
+ * Trigrams are lowercased, so the same set serves case-sensitive and case-insensitive searches,
+ * and each is packed into a number with 10 bits per character. Characters beyond the first 1024
+ * code points share codes, which only lets a few extra files through the filter.
+ */
+
+// Alternatives of a regex beyond which its required trigrams aren't worth tracking
+const MAX_ALTERNATIVES = 16;
+
+/**
+ * Get the trigrams of file content. Trigrams spanning lines are left out, since searches match within a line
+ * @param text File content
+ * @returns Trigram codes in ascending order
+ */
+export function extractTrigrams(text: string): Uint32Array {
+  const codes = new Set<number>();
+  const lowerText = text.toLowerCase();
+  for (let i = 0; i + 3 <= lowerText.length; i++) {
+    const code = getTrigramCode(lowerText, i);
+    if (code !== undefined) {
+      codes.add(code);
+    }
+  }
+  return Uint32Array.from(codes).sort();
+}
+
+/**
+ * Encode a trigram set compactly for the on-disk index, as base64 of the variable-length differences between codes
+ * @param trigrams Trigram codes in ascending order
+ * @returns Encoded trigrams
+ */
+export function encodeTrigrams(trigrams: Uint32Array): string {
+  const bytes: number[] = [];
+  let previous = 0;
+  for (const code of trigrams) {
+    let delta = code - previous;
+    previous = code;
+    while (delta >= 0x80) {
+      bytes.push((delta & 0x7f) | 0x80);
+      delta >>>= 7;
+    }
+    bytes.push(delta);
+  }
+  return Buffer.from(bytes).toString('base64');
+}
+
+/**
+ * Decode a trigram set written by encodeTrigrams
+ * @param encoded Encoded trigrams
+ * @returns Trigram codes in ascending order
+ */
+export function decodeTrigrams(encoded: string): Uint32Array {
+  const bytes = Buffer.from(encoded, 'base64');
+  const codes: number[] = [];
+  let previous = 0;
+  let delta = 0;
+  let shift = 0;
+  for (const byte of bytes) {
+    delta |= (byte & 0x7f) << shift;
+    shift += 7;
+    if (byte < 0x80) {
+      previous += delta >>> 0;
+      codes.push(previous);
+      delta = 0;
+      shift = 0;
+    }
+  }
+  return Uint32Array.from(codes);
+}
+
+/**
+ * Work out the trigrams every match of a search must contain
+ * @param pattern Regular expression source, or literal text
+ * @param literal Whether the pattern is literal text
+ * @returns Alternatives, each a list of trigram codes that a line matching through it contains.
+ * A file may contain a match if it has every trigram of at least one alternative. Undefined if
+ * the search could match text without any particular trigram, so no file can be ruled out
+ */
+export function getRequiredTrigrams(pattern: string, literal: boolean): number[][] | undefined {
+  const alternatives = literal ? [[pattern]] : getRequiredLiterals(pattern);
+  if (!alternatives) {
+    return undefined;
+  }
+
+  const required = alternatives.map(literals => Array.from(new Set(literals.flatMap(getLiteralTrigrams))));
+  return required.some(trigrams => trigrams.length === 0) ? undefined : required;
+}
+
+/**
+ * Check whether a file may contain a match, from its trigrams
+ * @param trigrams The file's trigram codes in ascending order
+ * @param required Required trigrams from getRequiredTrigrams
+ * @returns False if no match is possible in the file
+ */
+export function mayContainMatch(trigrams: Uint32Array, required: number[][]): boolean {
+  return required.some(alternative => alternative.every(code => containsCode(trigrams, code)));
+}
+
+/**
+ * Pack the three characters at a position into a trigram code
+ * @param text Lowercase text
+ * @param index Position of the first character
+ * @returns Trigram code, or undefined if the characters span a line break
+ */
+function getTrigramCode(text: string, index: number): number | undefined {
+  const a = text.charCodeAt(index);
+  const b = text.charCodeAt(index + 1);
+  const c = text.charCodeAt(index + 2);
+  if (a === 10 || b === 10 || c === 10) {
+    return undefined;
+  }
+  return (((a & 0x3ff) << 20) | ((b & 0x3ff) << 10) | (c & 0x3ff)) >>> 0;
+}
+
+/**
+ * Get the trigram codes of a literal string
+ * @param literal Literal text
+ * @returns Trigram codes of the lowercased text
+ */
+function getLiteralTrigrams(literal: string): number[] {
+  const lowerLiteral = literal.toLowerCase();
+  const codes: number[] = [];
+  for (let i = 0; i + 3 <= lowerLiteral.length; i++) {
+    const code = getTrigramCode(lowerLiteral, i);
+    if (code !== undefined) {
+      codes.push(code);
+    }
+  }
+  return codes;
+}
+
+/**
+ * Binary search a sorted trigram set
+ * @param trigrams Trigram codes in ascending order
+ * @param code Code to look for
+ * @returns True if the set contains the code
+ */
+function containsCode(trigrams: Uint32Array, code: number): boolean {
+  let low = 0;
+  let high = trigrams.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (trigrams[mid] < code) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low < trigrams.length && trigrams[low] === code;
+}
+
+/**
+ * Work out the literal strings every match of a regular expression contains. Character classes,
+ * wildcards, optional parts and anything not understood contribute nothing, which keeps the result
+ * a safe under-estimate: a line matching the regex always contains the literals of some alternative.
+ * @param source Regular expression source
+ * @returns Alternatives, each a list of literal strings, or undefined if nothing is required
+ */
+function getRequiredLiterals(source: string): string[][] | undefined {
+  let i = 0;
+
+  // Parse alternatives separated by | until the end of the source or of the current group
+  const parseAlternation = (): string[][] | undefined => {
+    const alternatives: string[][] = [];
+    let anyUnconstrained = false;
+    while (true) {
+      const sequence = parseSequence();
+      if (sequence) {
+        alternatives.push(...sequence);
+      } else {
+        anyUnconstrained = true;
+      }
+      if (source[i] !== '|') {
+        break;
+      }
+      i++;
+    }
+    return anyUnconstrained || alternatives.length > MAX_ALTERNATIVES ? undefined : alternatives;
+  };
+
+  // Parse a sequence of atoms, combining the literal runs and groups it must contain
+  const parseSequence = (): string[][] | undefined => {
+    let result: string[][] = [[]];
+    let run = '';
+
+    const endRun = () => {
+      if (run) {
+        result = result.map(literals => [...literals, run]);
+        run = '';
+      }
+    };
+
+    while (i < source.length && source[i] !== '|' && source[i] !== ')') {
+      const char = source[i];
+      let atom: { literal: string } | { group: string[][] | undefined } | undefined;
+
+      if (char === '\\') {
+        const escaped = source[i + 1] ?? '';
+        i += 2;
+        // Escaped punctuation is literal; letters are classes, anchors or codes and match nothing specific
+        atom = /[^A-Za-z0-9]/.test(escaped) ? { literal: escaped } : undefined;
+        if (/[cxuk]/.test(escaped) || /[1-9]/.test(escaped)) {
+          i = skipEscapeArgument(source, i, escaped);
+        }
+      } else if (char === '[') {
+        i = skipCharacterClass(source, i);
+      } else if (char === '(') {
+        const lookaround = /^\(\?(?:[=!]|<[=!])/.test(source.slice(i));
+        // Non-capturing, lookaround, named and modifier groups start with (? and a marker
+        const prefix = source.slice(i).match(/^\(\?(?:[:=!]|<[=!]|<[A-Za-z_$][\w$]*>|[a-z]*(?:-[a-z]+)?:)?/);
+        i += prefix ? prefix[0].length : 1;
+        const group = parseAlternation();
+        i++; // Closing parenthesis
+        atom = lookaround ? undefined : { group };
+      } else if (char === '.' || char === '^' || char === '$') {
+        i++;
+      } else {
+        atom = { literal: char };
+        i++;
+      }
+
+      // Quantifiers decide whether the atom is required, and whether a literal run can continue after it
+      const quantifier = source.slice(i).match(/^(?:[*+?]|\{(\d+)(?:,\d*)?\})\??/);
+      if (quantifier) {
+        i += quantifier[0].length;
+      }
+      const optional = quantifier !== null && (/^[*?]/.test(quantifier[0]) || quantifier[1] === '0');
+
+      if (atom && 'literal' in atom && !optional) {
+        run += atom.literal;
+        if (quantifier) {
+          endRun();
+        }
+      } else {
+        endRun();
+        if (atom && 'group' in atom && atom.group && !optional) {
+          const group = atom.group;
+          const combined = result.flatMap(literals => group.map(groupLiterals => [...literals, ...groupLiterals]));
+          if (combined.length <= MAX_ALTERNATIVES) {
+            result = combined;
+          }
+        }
+      }
+    }
+
+    endRun();
+    return result.every(literals => literals.length > 0) ? result : undefined;
+  };
+
+  return parseAlternation();
+}
+
+/**
+ * Skip a character class like [a-z] or [^\]]. In JavaScript the first unescaped ] always closes the class
+ * @param source Regular expression source
+ * @param start Index of the opening bracket
+ * @returns Index just after the closing bracket
+ */
+function skipCharacterClass(source: string, start: number): number {
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === ']') {
+      return i + 1;
+    }
+  }
+  return source.length;
+}
+
+/**
+ * Skip what follows escapes that take an argument: \cX, \xHH, \uHHHH, \u{...}, \k<name> and back-references
+ * @param source Regular expression source
+ * @param index Index just after the escape letter or digit
+ * @param escaped Escape letter or digit
+ * @returns Index after the argument
+ */
+function skipEscapeArgument(source: string, index: number, escaped: string): number {
+  const rest = source.slice(index);
+  const argument = escaped === 'c' ? rest.match(/^[A-Za-z]/)
+    : escaped === 'x' ? rest.match(/^[0-9A-Fa-f]{2}/)
+    : escaped === 'u' ? rest.match(/^(?:\{[0-9A-Fa-f]+\}|[0-9A-Fa-f]{4})/)
+    : escaped === 'k' ? rest.match(/^<[^>]*>/)
+    : rest.match(/^\d*/);
+  return index + (argument ? argument[0].length : 0);
+}
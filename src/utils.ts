@@ -1,91 +1,131 @@
-import { glob } from 'glob';
 import fs from 'fs';
 import path from 'path';
-import ignore from 'ignore';
+import { IgnoreRules, IgnoreOptions } from './IgnoreRules.js';
+import { logError } from './logger.js';
 
 /**
- * Load and parse .gitignore file
- * @param directory Directory containing .gitignore file
- * @returns Ignore instance for pattern matching
+ * File extensions indexed when none are specified
  */
-function loadGitignore(directory: string): ignore.Ignore {
-  const ig = ignore();
-  
-  // Find all .gitignore files in the directory and its parents
-  let currentDir = directory;
-  const gitignoreFiles = [];
+export const DEFAULT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.cpp', '.cs'];
+
+/**
+ * Decides whether a path under an indexed directory belongs in the index
+ */
+export interface SourceFileFilter {
+  /**
+   * Check whether a file should be indexed
+   * @param file Absolute file path
+   * @returns True if the file has an indexed extension and is not ignored or a test file
+   */
+  isSourceFile(file: string): boolean;
   
-  while (currentDir !== path.parse(currentDir).root) {
-    const gitignorePath = path.join(currentDir, '.gitignore');
-    if (fs.existsSync(gitignorePath)) {
-      gitignoreFiles.push(gitignorePath);
-    }
-    currentDir = path.dirname(currentDir);
-  }
+  /**
+   * Check whether a path is excluded by the ignore rules
+   * @param filePath Absolute file or directory path
+   * @param isDirectory Whether the path is a directory
+   * @returns True if the path is ignored
+   */
+  isIgnored(filePath: string, isDirectory?: boolean): boolean;
+}
+
+/**
+ * Check whether a file is a test file. Test files are left out of the index
+ * @param file File path
+ * @returns True if the file is a test file
+ */
+function isTestFile(file: string): boolean {
+  const filename = path.basename(file).toLowerCase();
+  return filename.includes('.spec.') || 
+    filename.includes('.test.') || 
+    file.includes('__tests__');
+}
+
+/**
+ * Create a filter applying the same rules as getSourceFiles to individual paths
+ * @param directory Indexed directory
+ * @param extensions File extensions to include
+ * @param options Ignore options
+ * @returns Filter for paths under the directory
+ */
+export function createSourceFileFilter(
+  directory: string,
+  extensions: string[] = DEFAULT_EXTENSIONS,
+  options: IgnoreOptions = {}
+): SourceFileFilter {
+  const rules = new IgnoreRules(directory, options);
   
-  // Process .gitignore files from root to the target directory
-  for (const gitignorePath of gitignoreFiles.reverse()) {
-    try {
-      const content = fs.readFileSync(gitignorePath, 'utf8');
-      ig.add(content);
-    } catch (error) {
-      console.warn(`Error reading .gitignore file at ${gitignorePath}:`, error);
+  return {
+    isIgnored: (filePath: string, isDirectory: boolean = false): boolean => {
+      return rules.ignores(filePath, isDirectory);
+    },
+    isSourceFile: (file: string): boolean => {
+      return extensions.some(ext => file.endsWith(ext)) &&
+        !rules.ignores(file) &&
+        !isTestFile(file);
     }
-  }
-  
-  // Always ignore node_modules
-  ig.add('node_modules/**');
-  
-  return ig;
+  };
 }
 
 /**
- * Recursively find all source files in the given directory
+ * Recursively find all source files in the given directory.
+ * Ignored directories are not descended into, so large ignored trees cost nothing.
  * @param directory Directory to search
  * @param extensions File extensions to include
+ * @param options Ignore options
  * @returns Array of file paths
  */
 export async function getSourceFiles(
   directory: string,
-  extensions: string[] = ['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.cpp', '.cs']
+  extensions: string[] = DEFAULT_EXTENSIONS,
+  options: IgnoreOptions = {}
 ): Promise<string[]> {
   const files: string[] = [];
   
-  // Load .gitignore patterns
-  const ig = loadGitignore(directory);
+  // Load .gitignore and .ferretignore patterns
+  const filter = createSourceFileFilter(directory, extensions, options);
   
-  // Get absolute path for proper .gitignore filtering
-  const absoluteDirectory = path.resolve(directory);
-  
-  for (const ext of extensions) {
-    // Use glob to find all files with the extension
-    const matches = await glob(`${directory}/**/*${ext}`);
+  const walk = async (currentDir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(currentDir, { withFileTypes: true });
+    } catch (error) {
+      logError(`Could not read directory ${currentDir}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
     
-    // Filter files based on .gitignore if needed
-    if (ig) {
-      const filteredMatches = matches.filter(file => {
-        // Convert to relative path for .gitignore matching
-        const relativePath = path.relative(absoluteDirectory, file);
-        return !ig.ignores(relativePath);
-      });
-      files.push(...filteredMatches);
-    } else {
-      files.push(...matches);
+    for (const entry of entries) {
+      const entryPath = path.join(currentDir, entry.name);
+      
+      if (entry.isDirectory()) {
+        if (!filter.isIgnored(entryPath, true)) {
+          await walk(entryPath);
+        }
+      } else if (entry.isFile() || (entry.isSymbolicLink() && isFile(entryPath))) {
+        // Filter out ignored files and test files unless explicitly searching for tests
+        // But don't filter out files in the test directory structure if they're not actual test files
+        if (filter.isSourceFile(entryPath)) {
+          files.push(entryPath);
+        }
+      }
     }
-  }
+  };
   
-  // Filter out test files unless explicitly searching for tests
-  // But don't filter out files in the test directory structure if they're not actual test files
-  return files.filter(file => {
-    const filename = path.basename(file).toLowerCase();
-    const isTestFile = 
-      filename.includes('.spec.') || 
-      filename.includes('.test.') || 
-      file.includes('__tests__');
-    
-    // Keep the file if it's not a test file
-    return !isTestFile;
-  });
+  await walk(path.resolve(directory));
+  
+  return files;
+}
+
+/**
+ * Check whether a path points to a regular file, following symlinks
+ * @param filePath Path to check
+ * @returns True if the path is a file
+ */
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch (error) {
+    return false;
+  }
 }
 
 /**
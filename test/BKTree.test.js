@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BKTree, editDistance } from '../build/BKTree.js';
+
+test('editDistance counts a swap of adjacent characters as one edit', () => {
+  assert.equal(editDistance('cahce', 'cache'), 1);
+  assert.equal(editDistance('xcaz', 'xacz'), 1);
+  assert.equal(editDistance('kitten', 'sitting'), 3);
+  assert.equal(editDistance('', 'abc'), 3);
+});
+
+test('search finds terms that pruning by a non-metric distance would skip', () => {
+  const tree = new BKTree();
+  tree.add('xabcz');
+  tree.add('xacz');
+
+  assert.deepEqual(tree.search('xcaz', 1), [{ term: 'xacz', distance: 1 }]);
+});
+
+test('search finds every term within the distance', () => {
+  const terms = ['cache', 'catch', 'cached', 'caches', 'ache', 'each', 'reach', 'teach', 'acche', 'cahce'];
+  const tree = new BKTree();
+  terms.forEach(term => tree.add(term));
+
+  for (const word of ['cache', 'cahe', 'cachd']) {
+    for (const maxDistance of [1, 2]) {
+      const expected = terms.filter(term => editDistance(word, term) <= maxDistance).sort();
+      const found = tree.search(word, maxDistance).map(match => match.term).sort();
+      assert.deepEqual(found, expected);
+    }
+  }
+});
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CodeSearchEngine } from '../build/CodeSearchEngine.js';
+import { setLogLevel } from '../build/logger.js';
+
+setLogLevel('silent');
+
+/**
+ * Create a directory holding source files
+ * @param files Content of each file, by relative path
+ * @returns Directory path
+ */
+function createDirectory(files) {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ferret-engine-'));
+  for (const [file, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(directory, file), content);
+  }
+  return directory;
+}
+
+test('grep reads files changed since indexing even if their indexed trigrams rule out a match', async () => {
+  const directory = createDirectory({ 'cache.ts': 'export const cache = new Map();\n' });
+  try {
+    const engine = new CodeSearchEngine(undefined, { storage: 'disk' });
+    await engine.createIndex(directory, ['.ts']);
+    assert.deepEqual(await engine.grep('evictOldest', directory, { literal: true }), []);
+
+    fs.writeFileSync(path.join(directory, 'cache.ts'), 'export const cache = new Map();\nfunction evictOldest() {}\n');
+    const matches = await engine.grep('evictOldest', directory, { literal: true });
+    assert.deepEqual(matches.map(match => [path.basename(match.file), match.line, match.column]), [['cache.ts', 2, 10]]);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+test('the engine rejects invalid options', () => {
+  assert.throws(() => new CodeSearchEngine(undefined, { concurrency: 0 }), RangeError);
+  assert.throws(() => new CodeSearchEngine(undefined, { storage: 'cloud' }), RangeError);
+  assert.throws(() => new CodeSearchEngine(undefined, { memoryBudget: NaN }), RangeError);
+  assert.throws(() => new CodeSearchEngine(undefined, { k1: -1 }), RangeError);
+  assert.throws(() => new CodeSearchEngine(undefined, { b: 2 }), RangeError);
+  assert.throws(() => new CodeSearchEngine(undefined, { fieldWeights: { body: -1 } }), RangeError);
+  assert.throws(() => new CodeSearchEngine(undefined, { fieldWeights: { title: 1 } }), RangeError);
+});
+
+test('saving a directory keeps the other directories in the index file, including ones saved by other engines', async () => {
+  const first = createDirectory({ 'cache.ts': 'export const cache = new Map();\n' });
+  const second = createDirectory({ 'queue.ts': 'export const queue = [];\n' });
+  const third = createDirectory({ 'stack.ts': 'export const stack = [];\n' });
+  const indexPath = path.join(first, 'index');
+  try {
+    const engine = new CodeSearchEngine(indexPath);
+    await engine.createIndex(first, ['.ts']);
+    await engine.createIndex(second, ['.ts']);
+    await new CodeSearchEngine(indexPath).createIndex(third, ['.ts']);
+    fs.writeFileSync(path.join(first, 'lru.ts'), 'export const lru = new Map();\n');
+    await engine.createIndex(first, ['.ts']);
+
+    // Directories are stored with a trailing separator
+    const index = JSON.parse(fs.readFileSync(`${indexPath}.json`, 'utf-8'));
+    assert.deepEqual(Object.keys(index.directories).sort(), [first, second, third].map(directory => directory + path.sep).sort());
+    assert.deepEqual(index.directories[first + path.sep].files.map(file => file.file).sort(), ['cache.ts', 'lru.ts']);
+
+    const reloaded = new CodeSearchEngine(indexPath);
+    for (const [directory, term] of [[first, 'lru'], [second, 'queue'], [third, 'stack']]) {
+      assert.equal((await reloaded.search(term, directory)).length, 1);
+    }
+  } finally {
+    for (const directory of [first, second, third]) {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  }
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentStore } from '../build/ContentStore.js';
+
+test('the least recently used files are evicted once the budget is exceeded', () => {
+  // Strings take two bytes per character, so the budget holds two of these
+  const store = new ContentStore(40);
+  store.set('a.ts', 'a'.repeat(10));
+  store.set('b.ts', 'b'.repeat(10));
+  store.get('a.ts');
+  store.set('c.ts', 'c'.repeat(10));
+
+  assert.equal(store.size, 40);
+  assert.equal(store.get('a.ts'), 'a'.repeat(10));
+  assert.equal(store.get('c.ts'), 'c'.repeat(10));
+  // Evicted files are read back from disk, and this one doesn't exist
+  assert.equal(store.get('b.ts'), undefined);
+
+  store.set('big.ts', 'x'.repeat(30));
+  assert.equal(store.size, 40);
+  store.delete('a.ts');
+  assert.equal(store.size, 20);
+});
+
+test('line ranges of uncached files are read from their line offsets', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ferret-content-'));
+  const file = path.join(directory, 'lines.ts');
+  fs.writeFileSync(file, '\uFEFFone\ntwo\nthree\n');
+  try {
+    const store = new ContentStore(0);
+    // The byte order mark takes three bytes
+    const lineOffsets = [0, 7, 11, 17];
+    assert.deepEqual(store.readLines(file, lineOffsets, 1, 2), ['one', 'two']);
+    assert.deepEqual(store.readLines(file, lineOffsets, 3, 9), ['three']);
+    assert.deepEqual(store.readLines(file, lineOffsets, 9, 9), []);
+    assert.equal(store.size, 0);
+
+    fs.writeFileSync(file, 'one\n');
+    assert.deepEqual(store.readLines(file, lineOffsets, 2, 3), []);
+    assert.equal(store.readLines(path.join(directory, 'missing.ts'), lineOffsets, 1, 1), undefined);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GitAttributes } from '../build/GitAttributes.js';
+
+test('linguist-generated follows the deepest .gitattributes file and the last matching line', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ferret-attributes-'));
+  fs.mkdirSync(path.join(directory, 'vendor'));
+  fs.writeFileSync(path.join(directory, '.gitattributes'), '# Generated code\n*.pb.go linguist-generated\nvendor/** linguist-generated=true\n*.md text\n');
+  fs.writeFileSync(path.join(directory, 'vendor', '.gitattributes'), 'patched.go -linguist-generated\n');
+  try {
+    const attributes = new GitAttributes(directory);
+    const isGenerated = file => attributes.isGenerated(path.join(directory, file));
+
+    assert.equal(isGenerated('api.pb.go'), true);
+    assert.equal(isGenerated('api/service.pb.go'), true);
+    assert.equal(isGenerated('vendor/lib.go'), true);
+    assert.equal(isGenerated('vendor/patched.go'), false);
+    assert.equal(isGenerated('main.go'), false);
+    assert.equal(isGenerated('README.md'), false);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { IgnoreRules } from '../build/IgnoreRules.js';
+
+/**
+ * Create a repository holding ignore files
+ * @param files Content of each file, by relative path
+ * @returns Repository path
+ */
+function createRepository(files) {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ferret-ignore-'));
+  fs.mkdirSync(path.join(directory, '.git', 'info'), { recursive: true });
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(directory, file)), { recursive: true });
+    fs.writeFileSync(path.join(directory, file), content);
+  }
+  return directory;
+}
+
+test('gitignore patterns apply from the repository root down, each scoped to its directory', () => {
+  const directory = createRepository({
+    '.gitignore': 'out/\n*.log\n!keep.log\n',
+    'src/.gitignore': 'generated.ts\n',
+    '.git/info/exclude': 'scratch.ts\n'
+  });
+  try {
+    const rules = new IgnoreRules(directory);
+    const ignores = (file, isDirectory) => rules.ignores(path.join(directory, file), isDirectory);
+
+    assert.equal(ignores('debug.log'), true);
+    assert.equal(ignores('keep.log'), false);
+    assert.equal(ignores('out', true), true);
+    assert.equal(ignores('src/generated.ts'), true);
+    assert.equal(ignores('generated.ts'), false);
+    assert.equal(ignores('scratch.ts'), true);
+    assert.equal(ignores('node_modules/lib/index.js'), true);
+    assert.equal(ignores('src/index.ts'), false);
+
+    // Nothing beneath an ignored directory can be re-included
+    assert.equal(ignores('out/keep.log'), true);
+
+    // Patterns in the repository root still apply when indexing a subdirectory
+    assert.equal(new IgnoreRules(path.join(directory, 'src')).ignores(path.join(directory, 'src', 'trace.log')), true);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+test('.ferretignore applies with or without gitignore rules', () => {
+  const directory = createRepository({
+    '.gitignore': '*.log\n',
+    '.ferretignore': 'fixtures/\n',
+    '.git/info/exclude': 'scratch.ts\n'
+  });
+  try {
+    for (const respectGitignore of [true, false]) {
+      const rules = new IgnoreRules(directory, { respectGitignore });
+      assert.equal(rules.ignores(path.join(directory, 'fixtures', 'a.ts')), true);
+      assert.equal(rules.ignores(path.join(directory, 'node_modules', 'a.js')), true);
+      assert.equal(rules.ignores(path.join(directory, 'debug.log')), respectGitignore);
+      assert.equal(rules.ignores(path.join(directory, 'scratch.ts')), respectGitignore);
+    }
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
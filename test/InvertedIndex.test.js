@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InvertedIndex, TermDictionary } from '../build/InvertedIndex.js';
+
+/**
+ * Build frequencies that count a term in the body field only
+ * @param frequency Occurrences in the body
+ * @returns Frequency in each field
+ */
+function body(frequency) {
+  return [0, 0, 0, 0, frequency];
+}
+
+test('documents are added to and removed from the postings and corpus statistics', () => {
+  const index = new InvertedIndex();
+  index.addDocument('a.ts#1', new Map([['cache', body(2)], ['evict', [1, 0, 0, 0, 1]]]));
+  index.addDocument('b.ts#1', new Map([['cache', body(4)]]));
+
+  assert.deepEqual(Array.from(index.getPostings('cache').keys()), ['a.ts#1', 'b.ts#1']);
+  assert.deepEqual(index.getFieldLengths('a.ts#1'), [1, 0, 0, 0, 3]);
+  assert.deepEqual(index.averageFieldLengths, [0.5, 0, 0, 0, 3.5]);
+
+  // Adding a document again replaces its previous entry
+  index.addDocument('a.ts#1', new Map([['cache', body(1)]]));
+  assert.equal(index.getPostings('evict').size, 0);
+  assert.equal(index.dictionary.has('evict'), false);
+
+  index.removeDocument('b.ts#1');
+  assert.equal(index.documentCount, 1);
+  assert.deepEqual(index.averageFieldLengths, [0, 0, 0, 0, 1]);
+  assert.deepEqual(index.getFieldLengths('b.ts#1'), [0, 0, 0, 0, 0]);
+});
+
+test('positions map back to the lines they are on', () => {
+  const index = new InvertedIndex();
+  index.addDocument('a.ts#1', new Map([['cache', body(2)]]), new Map([['cache', [0, 5]]]), [0, 3, 5]);
+
+  assert.deepEqual(index.getPositions('a.ts#1', 'cache'), [0, 5]);
+  assert.deepEqual(index.getPositions('a.ts#1', 'evict'), []);
+  assert.deepEqual([0, 2, 3, 4, 5, 9].map(position => index.getLine('a.ts#1', position)), [0, 0, 1, 1, 2, 2]);
+});
+
+test('the dictionary finds terms by prefix, substring, wildcard, stem and edit distance', () => {
+  const dictionary = new TermDictionary();
+  for (const term of ['getuser', 'getuserbyid', 'setuser', 'validate', 'validation', 'cache']) {
+    dictionary.add(term);
+  }
+
+  assert.deepEqual(dictionary.withPrefix('getuser'), ['getuser', 'getuserbyid']);
+  assert.deepEqual(dictionary.containing('user').sort(), ['getuser', 'getuserbyid', 'setuser']);
+  assert.deepEqual(dictionary.containing('us').sort(), ['getuser', 'getuserbyid', 'setuser']);
+  assert.deepEqual(dictionary.matching('*user').sort(), ['getuser', 'setuser']);
+  assert.deepEqual(dictionary.matching('get*id'), ['getuserbyid']);
+  assert.deepEqual(dictionary.withStem('validating').sort(), ['validate', 'validation']);
+  assert.deepEqual(dictionary.similarTo('cahce', 1), [{ term: 'cache', distance: 1 }]);
+
+  dictionary.delete('getuser');
+  assert.deepEqual(dictionary.withPrefix('get'), ['getuserbyid']);
+  assert.deepEqual(dictionary.similarTo('getuser', 1), [{ term: 'setuser', distance: 1 }]);
+});
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SynonymDictionary, SYNONYMS_FILE } from '../build/SynonymDictionary.js';
+
+test('words expand to their synonyms, also by stem', () => {
+  const dictionary = new SynonymDictionary();
+  assert.deepEqual(dictionary.expand('db'), ['db', 'database']);
+  assert.deepEqual(dictionary.expand('databases'), ['databases', 'db', 'database']);
+  assert.deepEqual(dictionary.expand('cache'), ['cache']);
+});
+
+test('groups from options and the .ferretsynonyms file are added to the defaults', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ferret-synonyms-'));
+  fs.writeFileSync(path.join(directory, SYNONYMS_FILE), '# Project words\nuser, account member\n');
+  try {
+    const dictionary = new SynonymDictionary(directory, [['db', 'store']]);
+    assert.deepEqual(dictionary.expand('member'), ['member', 'user', 'account']);
+    assert.deepEqual(dictionary.expand('db'), ['db', 'database', 'store']);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractKeywords, extractPositions, isIndexedWord } from '../build/analyzer.js';
+import { getStopwords } from '../build/languages.js';
+
+test('reserved words are left out as whole identifiers but kept inside longer ones', () => {
+  const keywords = extractKeywords('function deleteUser() { new_session(); }', 'user.js', 'user.js');
+
+  assert.equal(keywords.has('delete'), true);
+  assert.equal(extractKeywords('delete cache[key];', 'user.js', 'user.js').has('delete'), false);
+  assert.equal(keywords.has('deleteuser'), true);
+  assert.equal(keywords.has('new'), true);
+  assert.equal(keywords.has('function'), false);
+});
+
+test('positions keep reserved sub-words and skip reserved identifiers', () => {
+  const { positions } = extractPositions('delete item;\ndeleteItem();', 'item.ts');
+
+  assert.deepEqual(positions.get('delete'), [2]);
+  assert.deepEqual(positions.get('item'), [1, 3]);
+});
+
+test('isIndexedWord leaves out short words, stopwords and reserved identifiers', () => {
+  const stopwords = getStopwords('file.ts');
+
+  assert.equal(isIndexedWord('id', stopwords), false);
+  assert.equal(isIndexedWord('the', stopwords, true), false);
+  assert.equal(isIndexedWord('static', stopwords), false);
+  assert.equal(isIndexedWord('static', stopwords, true), true);
+  assert.equal(isIndexedWord('cache', stopwords), true);
+});
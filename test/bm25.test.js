@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { explainFields, inverseDocumentFrequency, scoreTerms } from '../build/bm25.js';
+import { DEFAULT_FIELD_WEIGHTS, FIELDS } from '../build/fields.js';
+import { InvertedIndex } from '../build/InvertedIndex.js';
+
+/**
+ * Build field frequencies from the fields a term occurs in
+ * @param counts Occurrences by field name
+ * @returns Frequencies in the order of FIELDS
+ */
+function frequencies(counts) {
+  return FIELDS.map(field => counts[field] ?? 0);
+}
+
+/**
+ * Build an index of documents holding a cache term in different fields
+ * @returns Inverted index
+ */
+function createIndex() {
+  const index = new InvertedIndex();
+  index.addDocument('a', new Map([['cache', frequencies({ symbols: 1, body: 2 })], ['other', frequencies({ body: 5 })]]));
+  index.addDocument('b', new Map([['cache', frequencies({ body: 1 })], ['other', frequencies({ body: 1 })]]));
+  index.addDocument('c', new Map([['other', frequencies({ body: 3 })]]));
+  return index;
+}
+
+test('rare terms weigh more than common ones, and never below zero', () => {
+  assert.ok(inverseDocumentFrequency(1, 100) > inverseDocumentFrequency(50, 100));
+  assert.ok(inverseDocumentFrequency(100, 100) >= 0);
+});
+
+test('documents with more weighted matches score higher', () => {
+  const scores = scoreTerms(createIndex(), ['cache'], { k1: 1.2, b: 0.75, fieldWeights: DEFAULT_FIELD_WEIGHTS });
+
+  assert.deepEqual(Array.from(scores.keys()).sort(), ['a', 'b']);
+  assert.ok(scores.get('a') > scores.get('b'));
+});
+
+test('fields weighted 0 score nothing, even with k1 at 0', () => {
+  const parameters = { k1: 0, b: 0.75, fieldWeights: { ...DEFAULT_FIELD_WEIGHTS, body: 0 } };
+  const index = createIndex();
+  const scores = scoreTerms(index, ['cache'], parameters);
+
+  assert.equal(scores.get('b'), 0);
+  assert.ok(scores.get('a') > 0);
+  assert.deepEqual(explainFields(index, ['cache'], 'b', scores.get('b'), parameters), {});
+});
+
+test('field shares add up to the score', () => {
+  const parameters = { k1: 1.2, b: 0.75, fieldWeights: DEFAULT_FIELD_WEIGHTS };
+  const index = createIndex();
+  const score = scoreTerms(index, ['cache'], parameters).get('a');
+  const shares = explainFields(index, ['cache'], 'a', score, parameters);
+
+  assert.deepEqual(Object.keys(shares).sort(), ['body', 'symbols']);
+  assert.ok(Math.abs(shares.body + shares.symbols - score) < 1e-9);
+});
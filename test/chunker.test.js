@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkCode, MAX_CHUNK_LINES } from '../build/chunker.js';
+
+/**
+ * Summarize chunks for comparison
+ * @param chunks Chunks from chunkCode
+ * @returns Kind, name and line range of each chunk
+ */
+function describe(chunks) {
+  return chunks.map(chunk => `${chunk.kind} ${chunk.container ? `${chunk.container}.` : ''}${chunk.name || ''} ${chunk.startLine}-${chunk.endLine}`);
+}
+
+/**
+ * Check that chunks are in order, don't overlap and cover every non-blank line
+ * @param code File content
+ * @param chunks Chunks from chunkCode
+ */
+function assertCovers(code, chunks) {
+  const lines = code.split('\n');
+  let previousEnd = 0;
+  for (const chunk of chunks) {
+    assert.ok(chunk.startLine > previousEnd && chunk.endLine >= chunk.startLine);
+    assert.ok(lines.slice(previousEnd, chunk.startLine - 1).every(line => line.trim() === ''));
+    previousEnd = chunk.endLine;
+  }
+  assert.ok(lines.slice(previousEnd).every(line => line.trim() === ''));
+}
+
+test('declarations become chunks with their leading comments, and other code becomes blocks', () => {
+  const code = "import fs from 'fs';\n\n// Cache of values\nexport class Cache {\n  get(key) {\n    return 1;\n  }\n}\n\nexport const evict = async () => {\n  return '}';\n};\n\nconst limit = 1;\n";
+  const chunks = chunkCode(code, 'cache.ts');
+  assert.deepEqual(describe(chunks), ['block  1-1', 'class Cache 3-8', 'function evict 10-12', 'block  14-14']);
+  assertCovers(code, chunks);
+});
+
+test('python declarations end where the indentation does', () => {
+  const code = 'import os\n\nclass Store:\n    def get(self):\n        return "{"\n\ndef main():\n    pass\n';
+  const chunks = chunkCode(code, 'store.py');
+  assert.deepEqual(describe(chunks), ['block  1-1', 'class Store 3-5', 'function main 7-8']);
+  assertCovers(code, chunks);
+});
+
+test('large classes are split into their methods', () => {
+  const methods = Array.from({ length: 40 }, (_, i) => `  method${i}() {\n    first();\n    second();\n    third();\n  }`);
+  const code = `class Big {\n${methods.join('\n')}\n}\n`;
+  const chunks = chunkCode(code, 'big.ts');
+  assert.deepEqual(describe(chunks).slice(0, 3), ['class Big 1-1', 'method Big.method0 2-6', 'method Big.method1 7-11']);
+  assert.equal(chunks.filter(chunk => chunk.kind === 'method').length, 40);
+  assertCovers(code, chunks);
+});
+
+test('large declarations without members are split into windows', () => {
+  const code = `function long() {\n${'  step();\n'.repeat(MAX_CHUNK_LINES * 2)}}\n`;
+  const chunks = chunkCode(code, 'long.js');
+  assert.ok(chunks.length > 1);
+  assert.ok(chunks.every(chunk => chunk.endLine - chunk.startLine < MAX_CHUNK_LINES));
+  assertCovers(code, chunks);
+});
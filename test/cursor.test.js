@@ -0,0 +1,22 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCursor, encodeCursor, InvalidCursorError } from '../build/cursor.js';
+
+test('a cursor points at the page it was issued for', () => {
+  assert.equal(decodeCursor(encodeCursor('cache\0/src', 20), 'cache\0/src'), 20);
+  assert.equal(decodeCursor(encodeCursor('cache\0/src', 0), 'cache\0/src'), 0);
+});
+
+test('a cursor can only be used with the search it was issued for', () => {
+  assert.throws(() => decodeCursor(encodeCursor('cache\0/src', 20), 'cache\0/lib'), {
+    name: 'InvalidCursorError',
+    message: 'Cursor belongs to a different query or directory'
+  });
+});
+
+test('malformed cursors are rejected', () => {
+  const forge = state => Buffer.from(JSON.stringify(state)).toString('base64url');
+  for (const cursor of ['', 'not a cursor', forge(null), forge({ offset: -1 }), forge({ offset: 1.5 }), forge({ offset: '3' })]) {
+    assert.throws(() => decodeCursor(cursor, 'cache'), InvalidCursorError, cursor);
+  }
+});
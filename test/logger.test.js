@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { setLogLevel } from '../build/logger.js';
+import { readIndexFile } from '../build/indexStore.js';
+
+/**
+ * Count the lines written to stderr while running a function
+ * @param t Test context, to mock console.error with
+ * @param run Function to run
+ * @returns Number of console.error calls
+ */
+function countErrors(t, run) {
+  const error = t.mock.method(console, 'error', () => {});
+  try {
+    run();
+  } finally {
+    error.mock.restore();
+  }
+  return error.mock.callCount();
+}
+
+test('problems reading an index follow the log level', t => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ferret-logger-'));
+  const brokenIndex = path.join(directory, 'broken.json');
+  const oldIndex = path.join(directory, 'old.json');
+  fs.writeFileSync(brokenIndex, '{');
+  fs.writeFileSync(oldIndex, JSON.stringify({ version: 0, directories: {} }));
+
+  try {
+    setLogLevel('info');
+    assert.equal(countErrors(t, () => readIndexFile(brokenIndex)), 1);
+    assert.equal(countErrors(t, () => readIndexFile(oldIndex)), 1);
+
+    setLogLevel('error');
+    assert.equal(countErrors(t, () => readIndexFile(brokenIndex)), 1);
+    assert.equal(countErrors(t, () => readIndexFile(oldIndex)), 0);
+
+    setLogLevel('silent');
+    assert.equal(countErrors(t, () => readIndexFile(brokenIndex)), 0);
+  } finally {
+    setLogLevel('info');
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
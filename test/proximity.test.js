@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InvertedIndex } from '../build/InvertedIndex.js';
+import { findPhrase, minimumDistance, proximityBoost } from '../build/proximity.js';
+import { tokenizePhrase, tokenizeWithPositions } from '../build/tokenizer.js';
+
+/**
+ * Index a document with the word positions of its text
+ * @param text Document text
+ * @returns Index holding the document as 'doc'
+ */
+function indexText(text) {
+  const keywords = new Map();
+  const positions = new Map();
+  for (const token of tokenizeWithPositions(text)) {
+    keywords.set(token.term, [0, 0, 0, 0, (keywords.get(token.term)?.[4] || 0) + 1]);
+    positions.set(token.term, [...(positions.get(token.term) || []), token.position]);
+  }
+  const index = new InvertedIndex();
+  index.addDocument('doc', keywords, positions);
+  return index;
+}
+
+test('phrases match their words in order, including the sub-words of identifiers', () => {
+  const index = indexText('open the pool; connectionPool.close(); pool connection');
+  assert.deepEqual(findPhrase(index, 'doc', tokenizePhrase('connection pool')), [3]);
+  assert.deepEqual(findPhrase(index, 'doc', tokenizePhrase('connectionPool')), [3]);
+  assert.deepEqual(findPhrase(index, 'doc', tokenizePhrase('open pool')), []);
+  assert.deepEqual(findPhrase(index, 'doc', []), []);
+});
+
+test('minimumDistance finds the closest pair of positions', () => {
+  assert.equal(minimumDistance([1, 10, 20], [14, 30]), 4);
+  assert.equal(minimumDistance([5], []), Infinity);
+});
+
+test('words closer together boost a document more', () => {
+  const near = indexText('cache evict');
+  const far = indexText(`cache ${'filler '.repeat(30)}evict`);
+  assert.equal(proximityBoost(near, 'doc', [['cache'], ['evict']]), 1.5);
+  assert.ok(proximityBoost(far, 'doc', [['cache'], ['evict']]) < proximityBoost(near, 'doc', [['cache'], ['evict']]));
+  assert.equal(proximityBoost(near, 'doc', [['cache'], ['missing']]), 1);
+  assert.equal(proximityBoost(near, 'doc', [['cache']]), 1);
+});
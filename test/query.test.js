@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatQuery, getSearchedText, parseQuery, QueryParseError, wildcardToRegExp } from '../build/query.js';
+
+test('OR binds loosest, then AND, then words next to each other, then NOT', () => {
+  assert.equal(formatQuery(parseQuery('cache evict OR lru AND NOT stale')), '(cache evict) OR (lru AND NOT stale)');
+  assert.equal(formatQuery(parseQuery('(cache OR lru) -stale')), '(cache OR lru) NOT stale');
+  assert.deepEqual(parseQuery('NOT (a OR b)'), {
+    type: 'not',
+    child: { type: 'or', children: [{ type: 'word', text: 'a', wildcard: false }, { type: 'word', text: 'b', wildcard: false }] }
+  });
+});
+
+test('phrases, calls and lowercase operators stay search terms', () => {
+  assert.deepEqual(parseQuery('"open file"'), { type: 'phrase', text: 'open file' });
+  assert.deepEqual(parseQuery('fetchData()'), { type: 'word', text: 'fetchData()', wildcard: false });
+  assert.equal(formatQuery(parseQuery('read or write')), 'read or write');
+  assert.equal(formatQuery(parseQuery('a - b')), 'a - b');
+});
+
+test('filters are checked and normalized', () => {
+  assert.deepEqual(parseQuery('ext:.TS'), { type: 'filter', field: 'ext', value: 'ts' });
+  assert.deepEqual(parseQuery('kind:Function'), { type: 'filter', field: 'kind', value: 'function' });
+  assert.deepEqual(parseQuery('path:"src/my dir"'), { type: 'filter', field: 'path', value: 'src/my dir' });
+  assert.deepEqual(parseQuery('url:http'), { type: 'word', text: 'url:http', wildcard: false });
+  assert.throws(() => parseQuery('lang:cobol'), /Unknown language "cobol"/);
+  assert.throws(() => parseQuery('kind:banana'), /Unknown kind "banana"/);
+  assert.throws(() => parseQuery('path:'), /Missing value for "path:"/);
+});
+
+test('wildcards match any characters and need a letter or digit', () => {
+  assert.deepEqual(parseQuery('get*'), { type: 'word', text: 'get*', wildcard: true });
+  assert.throws(() => parseQuery('*'), /needs at least one letter or digit/);
+  assert.equal(wildcardToRegExp('get*Name', true).test('getUserName'), true);
+  assert.equal(wildcardToRegExp('get*Name', true).test('getUserNames'), false);
+  assert.equal(wildcardToRegExp('a.b*', false).test('xa.bc'), true);
+  assert.equal(wildcardToRegExp('a.b*', false).test('axb'), false);
+});
+
+test('malformed queries are reported with their column', () => {
+  assert.throws(() => parseQuery(''), { name: 'QueryParseError', message: 'Query is empty at column 1' });
+  assert.throws(() => parseQuery('cache AND'), /Expected a search term after "AND" at column 10/);
+  assert.throws(() => parseQuery('OR cache'), /Expected a search term before "OR" at column 1/);
+  assert.throws(() => parseQuery('(cache'), /Missing "\)" for the "\(" opened at column 1/);
+  assert.throws(() => parseQuery('()'), QueryParseError);
+  assert.throws(() => parseQuery('cache)'), /Unexpected "\)" at column 6/);
+  assert.throws(() => parseQuery('"open file'), /Missing closing quote/);
+});
+
+test('getSearchedText leaves out filters and negated terms', () => {
+  assert.deepEqual(getSearchedText(parseQuery('cache "open file" -stale ext:ts OR lru')), ['cache', 'open file', 'lru']);
+});
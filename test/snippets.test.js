@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSnippets, findHighlights } from '../build/snippets.js';
+
+/**
+ * Build the terms to highlight
+ * @param words Whole words
+ * @param fragments Text highlighted anywhere
+ * @returns Highlight terms
+ */
+function highlightTerms(words, fragments = []) {
+  return { words: new Set(words), fragments: new Set(fragments) };
+}
+
+/**
+ * Render a highlighted line with brackets around each highlight
+ * @param text Line text
+ * @param terms What to highlight
+ * @returns Marked-up text
+ */
+function mark(text, terms) {
+  let marked = text;
+  for (const { start, end } of findHighlights(text, terms).reverse()) {
+    marked = `${marked.slice(0, start)}[${marked.slice(start, end)}]${marked.slice(end)}`;
+  }
+  return marked;
+}
+
+test('whole words, sub-words and fragments are highlighted, with overlaps merged', () => {
+  assert.equal(mark('const userCache = getUser(id);', highlightTerms(['user'])), 'const [user]Cache = get[User](id);');
+  assert.equal(mark('const userCache = 1;', highlightTerms(['user', 'usercache'])), 'const [userCache] = 1;');
+  assert.equal(mark('reusable', highlightTerms([], ['usa'])), 're[usa]ble');
+  assert.equal(mark('users', highlightTerms(['user'])), 'users');
+});
+
+test('snippets show the best lines with context, merging ones that touch', () => {
+  const lines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+  lines[3] = 'cache';
+  lines[5] = 'cache evict';
+  lines[15] = 'evict';
+  const snippets = createSnippets(lines, 101, highlightTerms(['cache', 'evict']), [], { beforeContext: 1, afterContext: 1, maxSnippets: 2 });
+
+  assert.deepEqual(snippets.map(snippet => [snippet.startLine, snippet.endLine]), [[103, 107]]);
+  assert.deepEqual(snippets[0].lines.map(line => line.highlights.length), [0, 1, 0, 2, 0]);
+  assert.equal(snippets[0].lines[3].line, 106);
+});
+
+test('phrase lines come first, and results without matches show their start', () => {
+  const lines = ['cache evict', 'a', 'b', 'c', 'cache'];
+  const phraseFirst = createSnippets(lines, 1, highlightTerms(['cache', 'evict']), [5], { beforeContext: 0, afterContext: 0, maxSnippets: 1 });
+  assert.deepEqual(phraseFirst.map(snippet => [snippet.startLine, snippet.endLine]), [[5, 5]]);
+
+  const unmatched = createSnippets(lines, 1, highlightTerms(['missing']), [], { beforeContext: 1, afterContext: 1, maxSnippets: 3 });
+  assert.deepEqual(unmatched.map(snippet => [snippet.startLine, snippet.endLine]), [[1, 3]]);
+  assert.deepEqual(createSnippets(lines, 1, highlightTerms(['cache']), [], { beforeContext: 1, afterContext: 1, maxSnippets: 0 }), []);
+});
@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { stem } from '../build/stemmer.js';
+
+test('inflections of a word share its stem', () => {
+  for (const group of [['validating', 'validated', 'validation'], ['connect', 'connection', 'connections', 'connected'], ['caching', 'cached', 'caches'], ['files', 'file']]) {
+    assert.equal(new Set(group.map(stem)).size, 1, group.join(', '));
+  }
+  assert.equal(stem('running'), 'run');
+  assert.equal(stem('indexes'), 'index');
+});
+
+test('short words, numbers and identifiers with other characters are left alone', () => {
+  for (const word of ['is', 'http2', 'user_id', 'größe']) {
+    assert.equal(stem(word), word);
+  }
+});
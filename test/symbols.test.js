@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractDeclarations, isScriptFile } from '../build/symbols.js';
+
+/**
+ * Map each declaration to whether it is exported
+ * @param code File content
+ * @returns Exported flags keyed by name, qualified with the container
+ */
+function exports(code) {
+  return Object.fromEntries(extractDeclarations(code, 'file.ts').map(declaration =>
+    [declaration.container ? `${declaration.container}.${declaration.name}` : declaration.name, declaration.exported]));
+}
+
+test('extractDeclarations finds declarations with their kind, lines and container', () => {
+  const code = [
+    '/** Caches values */',
+    'export class Cache {',
+    '  private size = 0;',
+    '  get(key: string) {',
+    '    return key;',
+    '  }',
+    '}',
+    'const load = async () => 1;',
+    'type Key = string;'
+  ].join('\n');
+
+  assert.deepEqual(extractDeclarations(code, 'cache.ts'), [
+    { name: 'Cache', kind: 'class', startLine: 1, endLine: 7, exported: true, container: undefined },
+    { name: 'size', kind: 'property', startLine: 3, endLine: 3, exported: false, container: 'Cache' },
+    { name: 'get', kind: 'method', startLine: 4, endLine: 6, exported: true, container: 'Cache' },
+    { name: 'load', kind: 'function', startLine: 8, endLine: 8, exported: false, container: undefined },
+    { name: 'Key', kind: 'type', startLine: 9, endLine: 9, exported: false, container: undefined }
+  ]);
+});
+
+test('declarations are exported by an export modifier', () => {
+  assert.deepEqual(exports([
+    'export function a() {}',
+    'export default class B {}',
+    'export const c = 1, d = 2;',
+    'function e() {}',
+    'interface F {}'
+  ].join('\n')), { a: true, B: true, c: true, d: true, e: false, F: false });
+});
+
+test('declarations are exported by export lists and export default', () => {
+  assert.deepEqual(exports([
+    'function a() {}',
+    'const b = 1;',
+    'class C {}',
+    'type D = string;',
+    'function e() {}',
+    'export { a, b as renamed, D };',
+    'export default C;',
+    "export { e as f } from './other.js';"
+  ].join('\n')), { a: true, b: true, C: true, D: true, e: false });
+});
+
+test('members are exported with their container unless private or protected', () => {
+  assert.deepEqual(exports([
+    'export class A {',
+    '  run() {}',
+    '  private stop() {}',
+    '  protected reset() {}',
+    '  #count = 0;',
+    '}',
+    'class B {',
+    '  run() {}',
+    '}',
+    'export namespace N {',
+    '  export function inner() {}',
+    '  function hidden() {}',
+    '}'
+  ].join('\n')), {
+    A: true,
+    'A.run': true,
+    'A.stop': false,
+    'A.reset': false,
+    'A.count': false,
+    B: false,
+    'B.run': false,
+    N: true,
+    'N.inner': true,
+    'N.hidden': false
+  });
+});
+
+test('isScriptFile recognizes TypeScript and JavaScript files', () => {
+  assert.equal(isScriptFile('src/a.ts'), true);
+  assert.equal(isScriptFile('src/a.MJS'), true);
+  assert.equal(isScriptFile('src/a.py'), false);
+});
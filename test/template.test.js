@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTemplate, renderTemplate, TemplateError } from '../build/template.js';
+import { TEMPLATE_SHAPE } from '../build/output.js';
+
+/**
+ * Parse and render a template in one go
+ * @param source Template text
+ * @param data Values to render with
+ * @returns Rendered text
+ */
+function render(source, data) {
+  return renderTemplate(parseTemplate(source), data, source);
+}
+
+test('values are replaced, with dots reaching into records', () => {
+  assert.equal(render('{{path}}:{{line}} {{range.start}}', { path: 'a.ts', line: 3, range: { start: 1 } }), 'a.ts:3 1');
+  assert.equal(render('[{{symbol}}]', { symbol: null }), '[]');
+  assert.equal(render('{{lines}}', { lines: [1, 2, 3] }), '1, 2, 3');
+});
+
+test('each repeats its content for every item, with this, @index, @first and @last', () => {
+  const source = '{{#each items}}{{@index}}={{name}}{{#if @last}}.{{else}},{{/if}}{{/each}} {{#each tags}}{{this}}{{/each}}';
+  assert.equal(render(source, { items: [{ name: 'a' }, { name: 'b' }], tags: ['x', 'y'] }), '0=a,1=b. xy');
+});
+
+test('if shows its content only for set, non-empty values', () => {
+  const source = '{{#if value}}yes{{else}}no{{/if}}';
+  assert.equal(render(source, { value: 'x' }), 'yes');
+  for (const value of [false, 0, '', null, []]) {
+    assert.equal(render(source, { value }), 'no');
+  }
+});
+
+test('lines holding only a block tag are left out', () => {
+  assert.equal(render('start\n{{#each items}}\n- {{this}}\n{{/each}}\nend', { items: [1, 2] }), 'start\n- 1\n- 2\nend');
+});
+
+test('malformed templates are reported with their position', () => {
+  assert.throws(() => parseTemplate('a\n{{#each items}}'), { name: 'TemplateError', message: /Missing "\{\{\/each\}\}".* at line 2, column 1/ });
+  assert.throws(() => parseTemplate('{{/if}}'), TemplateError);
+  assert.throws(() => parseTemplate('{{else}}'), TemplateError);
+  assert.throws(() => parseTemplate('{{a b}}'), TemplateError);
+});
+
+test('names are checked against the shape when parsing', () => {
+  assert.doesNotThrow(() => parseTemplate('{{#each snippets}}{{#each lines}}{{line}}{{text}}{{@first}}{{path}}{{/each}}{{/each}}', TEMPLATE_SHAPE));
+  assert.doesNotThrow(() => parseTemplate('{{#each matchLines}}{{this}}{{/each}}', TEMPLATE_SHAPE));
+  assert.throws(() => parseTemplate('{{nope}}', TEMPLATE_SHAPE), /Unknown value "nope"/);
+  assert.throws(() => parseTemplate('{{#each lines}}{{/each}}', TEMPLATE_SHAPE), /Unknown value "lines"/);
+  assert.throws(() => parseTemplate('{{#each path}}{{/each}}', TEMPLATE_SHAPE), /"path" is not a list/);
+  assert.throws(() => parseTemplate('{{snippets}}', TEMPLATE_SHAPE), /has fields of its own/);
+});
+
+test('inherited object properties are not values', () => {
+  for (const name of ['constructor', 'toString', 'hasOwnProperty']) {
+    assert.throws(() => parseTemplate(`{{${name}}}`, TEMPLATE_SHAPE), /Unknown value/);
+    assert.throws(() => parseTemplate(`{{#each corrections}}{{${name}}}{{/each}}`, TEMPLATE_SHAPE), /Unknown value/);
+    assert.throws(() => render(`{{${name}}}`, { path: 'a.ts' }), /Unknown value/);
+    assert.throws(() => render(`{{record.${name}}}`, { record: { field: 1 } }), /Unknown value/);
+  }
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { splitIdentifier, tokenize, tokenizePhrase, tokenizeWithPositions, tokenizeWithSpans, tokenizeWithSubWords } from '../build/tokenizer.js';
+
+test('identifiers split into sub-words at case changes, underscores, hyphens and numbers', () => {
+  assert.deepEqual(splitIdentifier('parseHTTPResponse2Json'), ['parse', 'http', 'response', '2', 'json']);
+  assert.deepEqual(splitIdentifier('__MAX_file_SIZE'), ['max', 'file', 'size']);
+  assert.deepEqual(splitIdentifier('font-size'), ['font', 'size']);
+  assert.deepEqual(splitIdentifier('cache'), []);
+});
+
+test('tokens are each identifier followed by its sub-words', () => {
+  assert.deepEqual(tokenize('fetchUserData(user_id) + 42'), ['fetchuserdata', 'fetch', 'user', 'data', 'user_id', 'user', 'id', '42']);
+  assert.deepEqual(tokenizeWithSubWords('getUser x'), [
+    { term: 'getuser', subWord: false },
+    { term: 'get', subWord: true },
+    { term: 'user', subWord: true },
+    { term: 'x', subWord: false }
+  ]);
+});
+
+test('sub-words sit at the positions the separate words would', () => {
+  const tokens = tokenizeWithPositions('connectionPool\nconnection pool');
+  assert.deepEqual(tokens.map(token => [token.term, token.position, token.line]), [
+    ['connectionpool', 0, 0], ['connection', 0, 0], ['pool', 1, 0], ['connection', 2, 1], ['pool', 3, 1]
+  ]);
+  assert.deepEqual(tokenizePhrase('open fileHandle'), [{ term: 'open', offset: 0 }, { term: 'file', offset: 1 }, { term: 'handle', offset: 2 }]);
+});
+
+test('spans cover whole identifiers and each of their sub-words', () => {
+  assert.deepEqual(tokenizeWithSpans('a fooBar'), [
+    { term: 'a', start: 0, end: 1 },
+    { term: 'foobar', start: 2, end: 8 },
+    { term: 'foo', start: 2, end: 5 },
+    { term: 'bar', start: 5, end: 8 }
+  ]);
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeTrigrams, encodeTrigrams, extractTrigrams, getRequiredTrigrams, mayContainMatch } from '../build/trigrams.js';
+
+/**
+ * Check whether text may contain a match of a search, judging by trigrams alone
+ * @param pattern Regular expression source, or literal text
+ * @param literal Whether the pattern is literal text
+ * @param text Text to check
+ * @returns False if the trigrams rule out a match
+ */
+function mayMatch(pattern, literal, text) {
+  const required = getRequiredTrigrams(pattern, literal);
+  return required === undefined || mayContainMatch(extractTrigrams(text), required);
+}
+
+test('trigram sets survive encoding', () => {
+  const trigrams = extractTrigrams('export const cache = new Map();\nconst ünïcode = 1;');
+  assert.deepEqual(decodeTrigrams(encodeTrigrams(trigrams)), trigrams);
+  assert.deepEqual(decodeTrigrams(encodeTrigrams(new Uint32Array())), new Uint32Array());
+});
+
+test('literal searches need every trigram of the text, in any case but within a line', () => {
+  assert.equal(mayMatch('evictOldest', true, 'function EVICTOLDEST() {}'), true);
+  assert.equal(mayMatch('evictOldest', true, 'function evict() {}'), false);
+  assert.equal(mayMatch('ab\ncd', true, 'ab\ncd'), true);
+  assert.equal(getRequiredTrigrams('ab', true), undefined);
+});
+
+test('regex literals are required through sequences, groups and alternatives', () => {
+  assert.equal(mayMatch('fetch\\w+Data', false, 'fetchUserData'), true);
+  assert.equal(mayMatch('fetch\\w+Data', false, 'fetchUser'), false);
+  assert.equal(mayMatch('(read|write)File', false, 'writeFile'), true);
+  assert.equal(mayMatch('(read|write)File', false, 'openFile'), false);
+  assert.equal(mayMatch('cache\\.get', false, 'cache.get'), true);
+  assert.equal(mayMatch('cache\\.get', false, 'cacheXget'), false);
+});
+
+test('regexes that can match without particular trigrams rule nothing out', () => {
+  for (const pattern of ['\\w+', 'a.b', '(cache)?', 'cache|.*', '[abc]{3}', 'x*yz']) {
+    assert.equal(getRequiredTrigrams(pattern, false), undefined, pattern);
+  }
+});
+
+test('optional and repeated parts contribute nothing, keeping every real match', () => {
+  for (const [pattern, text] of [['colou?r', 'color'], ['(foo)*barbaz', 'barbaz'], ['cache(Entry)?Map', 'cacheMap'], ['[Cc]ache', 'Cache']]) {
+    assert.equal(new RegExp(pattern).test(text), true);
+    assert.equal(mayMatch(pattern, false, text), true, pattern);
+  }
+});